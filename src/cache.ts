@@ -0,0 +1,253 @@
+/**
+ * Query result cache for QortexVectorStore.
+ *
+ * Read-only tool calls (qortex_vector_query, qortex_rules, qortex_explore,
+ * and qortex_query with `textQueries`) are cached under the tool name plus
+ * a hash of their normalized arguments, for `ttlMs`. Storage is pluggable
+ * through QortexCacheAdapter; the default is an in-memory LRU.
+ *
+ * qortex_query is opt-in because its response carries the server's query
+ * id: a cached response hands the same id to every identical search, so
+ * their feedback lands on one server-side query.
+ *
+ * Every entry is tagged with the index and domains its arguments name.
+ * Writes through the store invalidate what they touch, whether or not they
+ * succeed: vector upserts and deletes drop their index's entries and the
+ * store domain's; index changes drop their index's; graph deletes drop
+ * their domain's; graph imports and feedback drop every graph entry.
+ * Invalidation only reaches entries this process wrote, so a shared
+ * adapter should use a short TTL when several processes write. The store
+ * tracks at most `maxEntries` of them: expired ones are forgotten, and
+ * the oldest are deleted from the adapter to make room.
+ */
+
+import { createHash } from "node:crypto";
+
+/** Storage behind the query cache. Methods may be sync or async. */
+export interface QortexCacheAdapter {
+  /** The value stored under `key`, or undefined on a miss or after expiry. */
+  get(key: string): unknown | Promise<unknown>;
+  /** Store a JSON-serializable value for `ttlMs`. */
+  set(key: string, value: unknown, ttlMs: number): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+}
+
+/** Options for the query cache. */
+export interface QortexCacheOptions {
+  /** Storage (default: a QortexLruCache with `maxEntries`). */
+  adapter?: QortexCacheAdapter;
+  /** How long results stay cached, in ms (default: 60000). */
+  ttlMs?: number;
+  /** Entries kept at once, in any adapter (default: 500). */
+  maxEntries?: number;
+  /**
+   * Also cache text-level searches (qortex_query; default: false).
+   * Identical searches then share one query id, so feedback for them is
+   * recorded against a single server-side query.
+   */
+  textQueries?: boolean;
+}
+
+/** What a write changed, for invalidation. */
+interface CacheScope {
+  index?: string;
+  /** Affected domain, or "*" for every domain. */
+  domain?: string;
+}
+
+/** Tools whose results are cached by default. */
+const CACHEABLE_TOOLS = ["qortex_vector_query", "qortex_rules", "qortex_explore"];
+
+/** Tag for entries whose domains are unknown (e.g. qortex_explore). */
+const ANY_DOMAIN = "domain:*";
+
+/** In-memory LRU with per-entry expiry; the default cache adapter. */
+export class QortexLruCache implements QortexCacheAdapter {
+  private maxEntries: number;
+  private entries = new Map<string, { value: unknown; expires: number }>();
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 500);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): unknown {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expires <= Date.now()) return undefined;
+    // Re-insert to mark as most recently used
+    this.entries.set(key, entry);
+    return structuredClone(entry.value);
+  }
+
+  set(key: string, value: unknown, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value: structuredClone(value), expires: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+/** The store's view of the cache: tagging on reads, invalidation on writes. */
+export class QueryCache {
+  private adapter: QortexCacheAdapter;
+  private ttlMs: number;
+  private maxEntries: number;
+  private cacheable: Set<string>;
+  /** Domain searched by the store's vector writes. */
+  private domain: string;
+  /**
+   * Keys written by this process, least recently used first, with their
+   * tags ("index:docs", "domain:security") and expiry.
+   */
+  private entries = new Map<string, { tags: string[]; expires: number }>();
+
+  constructor(options: QortexCacheOptions, domain: string) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 500);
+    this.adapter =
+      options.adapter ?? new QortexLruCache({ maxEntries: this.maxEntries });
+    this.ttlMs = options.ttlMs ?? 60_000;
+    this.cacheable = new Set(
+      options.textQueries ? [...CACHEABLE_TOOLS, "qortex_query"] : CACHEABLE_TOOLS,
+    );
+    this.domain = domain;
+  }
+
+  /**
+   * Make a tool call through the cache: read-only calls are answered from
+   * it when possible, writes invalidate the entries they affect.
+   */
+  async fetch(
+    tool: string,
+    args: Record<string, unknown>,
+    call: () => Promise<unknown>,
+  ): Promise<unknown> {
+    if (!this.cacheable.has(tool)) {
+      try {
+        return await call();
+      } finally {
+        // A failed write may still have been applied
+        const scope = this.writeScope(tool, args);
+        if (scope) await this.invalidate(scope);
+      }
+    }
+
+    const key = cacheKey(tool, args);
+    const cached = await this.adapter.get(key);
+    if (cached !== undefined) {
+      const entry = this.entries.get(key);
+      if (entry) {
+        // Re-insert to mark as most recently used
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+      }
+      return cached;
+    }
+
+    const result = await call();
+    await this.adapter.set(key, result, this.ttlMs);
+    this.entries.delete(key);
+    this.entries.set(key, { tags: tagsFor(args), expires: Date.now() + this.ttlMs });
+    await this.prune();
+    return result;
+  }
+
+  /** Drop every entry this process cached. */
+  async clear(): Promise<void> {
+    await this.drop([...this.entries.keys()]);
+  }
+
+  /** Drop entries for an index and/or domain. */
+  private async invalidate(scope: CacheScope): Promise<void> {
+    const matches = (tag: string) =>
+      (scope.index !== undefined && tag === `index:${scope.index}`) ||
+      (scope.domain === "*"
+        ? tag.startsWith("domain:")
+        : scope.domain !== undefined &&
+          (tag === `domain:${scope.domain}` || tag === ANY_DOMAIN));
+    await this.drop(
+      [...this.entries]
+        .filter(([, entry]) => entry.tags.some(matches))
+        .map(([key]) => key),
+    );
+  }
+
+  /**
+   * Forget expired entries, and delete the least recently used ones past
+   * `maxEntries`, so no cached entry goes untracked.
+   */
+  private async prune(): Promise<void> {
+    const now = Date.now();
+    const expired: string[] = [];
+    for (const [key, entry] of this.entries) {
+      if (entry.expires <= now) expired.push(key);
+    }
+    for (const key of expired) this.entries.delete(key);
+
+    const excess = [...this.entries.keys()].slice(0, this.entries.size - this.maxEntries);
+    await this.drop(excess);
+  }
+
+  /** What a write tool changes; null for tools that change nothing cached. */
+  private writeScope(tool: string, args: Record<string, unknown>): CacheScope | null {
+    const index = typeof args.index_name === "string" ? args.index_name : undefined;
+    switch (tool) {
+      case "qortex_vector_upsert":
+      case "qortex_vector_delete":
+        return { index, domain: this.domain };
+      case "qortex_vector_create_index":
+      case "qortex_vector_delete_index":
+        return { index };
+      case "qortex_graph_delete":
+        return { domain: typeof args.domain === "string" ? args.domain : "*" };
+      case "qortex_graph_import":
+      case "qortex_feedback":
+        return { domain: "*" };
+      default:
+        return null;
+    }
+  }
+
+  private async drop(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    for (const key of keys) this.entries.delete(key);
+    await Promise.all(keys.map((key) => this.adapter.delete(key)));
+  }
+}
+
+/** Tool name plus a hash of the arguments with keys sorted and undefined dropped. */
+function cacheKey(tool: string, args: Record<string, unknown>): string {
+  const hash = createHash("sha256").update(stableStringify(args)).digest("hex");
+  return `qortex:${tool}:${hash}`;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Every entry is tagged; one with neither index nor domains gets ANY_DOMAIN. */
+function tagsFor(args: Record<string, unknown>): string[] {
+  if (typeof args.index_name === "string") return [`index:${args.index_name}`];
+  const domains = Array.isArray(args.domains) ? (args.domains as unknown[]) : [];
+  const tags = domains.filter((d): d is string => typeof d === "string").map((d) => `domain:${d}`);
+  return tags.length > 0 ? tags : [ANY_DOMAIN];
+}
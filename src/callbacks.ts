@@ -0,0 +1,243 @@
+/**
+ * QortexFeedbackHandler: closes the qortex feedback loop from LangChain runs.
+ *
+ * Attach it as a callback to a chain that retrieves from qortex. It records
+ * which qortex documents were retrieved inside each top-level run and, once
+ * the run finishes, reports outcomes for them via qortex_feedback, grouped
+ * by the query that returned them (`metadata.query_id`).
+ *
+ * Outcomes come from an `evaluate` function called when the run ends, or
+ * later from `rate()` — e.g. when a user clicks thumbs up/down in a UI.
+ *
+ * Usage:
+ *   const handler = new QortexFeedbackHandler({ vectorStore: store });
+ *   const answer = await chain.invoke(question, { callbacks: [handler], runId });
+ *   ...
+ *   await handler.rate(runId, thumbsUp ? "accepted" : "rejected");
+ */
+
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { DocumentInterface } from "@langchain/core/documents";
+import type { Serialized } from "@langchain/core/load/serializable";
+import type { ChainValues } from "@langchain/core/utils/types";
+import type { FeedbackOutcome, FeedbackResult } from "./types.js";
+import type { QortexVectorStore } from "./vectorstore.js";
+
+/** A finished top-level run, as passed to the evaluator. */
+export interface QortexFeedbackRun {
+  runId: string;
+  inputs?: ChainValues;
+  outputs?: ChainValues;
+  /** qortex documents retrieved during the run. */
+  documents: DocumentInterface[];
+}
+
+/** One outcome for every document, or outcomes by document id. */
+export type QortexFeedbackRating =
+  | FeedbackOutcome
+  | Record<string, FeedbackOutcome>;
+
+/**
+ * Decide the outcome of a finished run. Return undefined to skip feedback
+ * for now (the run can still be rated with `rate()`).
+ */
+export type QortexFeedbackEvaluator = (
+  run: QortexFeedbackRun,
+) => QortexFeedbackRating | undefined | Promise<QortexFeedbackRating | undefined>;
+
+export interface QortexFeedbackHandlerInput {
+  /** Store that served the retrievals; feedback is sent through it. */
+  vectorStore: QortexVectorStore;
+  /** Rate each run when it finishes. */
+  evaluate?: QortexFeedbackEvaluator;
+  /** Finished runs kept for `rate()`; the oldest are dropped (default: 100). */
+  maxPendingRuns?: number;
+}
+
+export class QortexFeedbackHandler extends BaseCallbackHandler {
+  name = "QortexFeedbackHandler";
+
+  private vectorStore: QortexVectorStore;
+  private evaluate?: QortexFeedbackEvaluator;
+  private maxPendingRuns: number;
+  /** Parent of every active chain, tool and retriever run. */
+  private parents = new Map<string, string | undefined>();
+  /** Inputs of active top-level runs. */
+  private inputs = new Map<string, ChainValues>();
+  /** Retrieved documents by top-level run. */
+  private runs = new Map<string, DocumentInterface[]>();
+
+  constructor(fields: QortexFeedbackHandlerInput) {
+    super();
+    this.vectorStore = fields.vectorStore;
+    this.evaluate = fields.evaluate;
+    this.maxPendingRuns = fields.maxPendingRuns ?? 100;
+  }
+
+  /** Documents recorded for a top-level run that has not been rated yet. */
+  documentsFor(runId: string): DocumentInterface[] {
+    return this.runs.get(runId) ?? [];
+  }
+
+  /**
+   * Send feedback for the documents retrieved in a run. Each run can be
+   * rated once; later calls (or runs without qortex documents) return [].
+   */
+  async rate(
+    runId: string,
+    rating: QortexFeedbackRating,
+  ): Promise<FeedbackResult[]> {
+    const documents = this.runs.get(runId);
+    if (!documents) {
+      return [];
+    }
+    this.runs.delete(runId);
+    return this.send(documents, rating);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Callbacks
+  // ---------------------------------------------------------------------------
+
+  async handleChainStart(
+    _chain: Serialized,
+    inputs: ChainValues,
+    runId: string,
+    parentRunId?: string,
+  ): Promise<void> {
+    this.start(runId, parentRunId, inputs);
+  }
+
+  async handleToolStart(
+    _tool: Serialized,
+    _input: string,
+    runId: string,
+    parentRunId?: string,
+  ): Promise<void> {
+    this.start(runId, parentRunId);
+  }
+
+  async handleRetrieverStart(
+    _retriever: Serialized,
+    query: string,
+    runId: string,
+    parentRunId?: string,
+  ): Promise<void> {
+    this.start(runId, parentRunId, { query });
+  }
+
+  async handleRetrieverEnd(
+    documents: DocumentInterface[],
+    runId: string,
+  ): Promise<void> {
+    const retrieved = documents.filter(
+      (doc) => doc.id && typeof doc.metadata.query_id === "string",
+    );
+    if (retrieved.length > 0) {
+      const root = this.rootOf(runId);
+      this.runs.set(root, [...(this.runs.get(root) ?? []), ...retrieved]);
+    }
+    await this.end(runId, { documents });
+  }
+
+  async handleChainEnd(outputs: ChainValues, runId: string): Promise<void> {
+    await this.end(runId, outputs);
+  }
+
+  async handleToolEnd(_output: unknown, runId: string): Promise<void> {
+    await this.end(runId);
+  }
+
+  async handleChainError(_err: Error, runId: string): Promise<void> {
+    this.fail(runId);
+  }
+
+  async handleToolError(_err: Error, runId: string): Promise<void> {
+    this.fail(runId);
+  }
+
+  async handleRetrieverError(_err: Error, runId: string): Promise<void> {
+    this.fail(runId);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private start(
+    runId: string,
+    parentRunId: string | undefined,
+    inputs?: ChainValues,
+  ): void {
+    this.parents.set(runId, parentRunId);
+    if (parentRunId === undefined && inputs) {
+      this.inputs.set(runId, inputs);
+    }
+  }
+
+  /** Top-most active run above `runId` (runs we never saw count as absent). */
+  private rootOf(runId: string): string {
+    let root = runId;
+    let parent = this.parents.get(root);
+    while (parent !== undefined && this.parents.has(parent)) {
+      root = parent;
+      parent = this.parents.get(root);
+    }
+    return root;
+  }
+
+  private async end(runId: string, outputs?: ChainValues): Promise<void> {
+    const isRoot = this.rootOf(runId) === runId;
+    this.parents.delete(runId);
+    if (!isRoot) return;
+
+    const inputs = this.inputs.get(runId);
+    this.inputs.delete(runId);
+    const documents = this.runs.get(runId);
+    if (!documents) return;
+
+    if (this.evaluate) {
+      const rating = await this.evaluate({ runId, inputs, outputs, documents });
+      if (rating !== undefined) {
+        await this.rate(runId, rating);
+        return;
+      }
+    }
+
+    // Keep the run for rate(), bounded to the most recent runs.
+    this.runs.delete(runId);
+    this.runs.set(runId, documents);
+    while (this.runs.size > this.maxPendingRuns) {
+      this.runs.delete(this.runs.keys().next().value as string);
+    }
+  }
+
+  private fail(runId: string): void {
+    if (this.rootOf(runId) === runId) {
+      this.runs.delete(runId);
+      this.inputs.delete(runId);
+    }
+    this.parents.delete(runId);
+  }
+
+  /** One qortex_feedback call per query the documents came from. */
+  private async send(
+    documents: DocumentInterface[],
+    rating: QortexFeedbackRating,
+  ): Promise<FeedbackResult[]> {
+    const byQuery = new Map<string, Record<string, FeedbackOutcome>>();
+    for (const doc of documents) {
+      const outcome = typeof rating === "string" ? rating : rating[doc.id!];
+      if (!outcome) continue;
+      const queryId = doc.metadata.query_id as string;
+      byQuery.set(queryId, { ...byQuery.get(queryId), [doc.id!]: outcome });
+    }
+
+    const results: FeedbackResult[] = [];
+    for (const [queryId, outcomes] of byQuery) {
+      const result = await this.vectorStore.feedback(outcomes, { queryId });
+      if (result) results.push(result);
+    }
+    return results;
+  }
+}
@@ -2,12 +2,41 @@
  * MCP client wrapper for communicating with the qortex MCP server.
  *
  * Handles connection lifecycle and tool invocation. The qortex server
- * is spawned as a subprocess (stdio transport) or connected to an
- * existing server.
+ * is spawned as a subprocess (stdio transport), reached over HTTP
+ * (streamable HTTP with an SSE fallback), or connected to an existing
+ * server through a pre-configured client.
+ *
+ * Connections the client opens itself are watched: when the transport
+ * closes unexpectedly (e.g. the Python process crashes), the client
+ * reconnects with exponential backoff and replays idempotent calls that
+ * were in flight.
  */
 
+import { EventEmitter } from "node:events";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import {
+  QortexAbortError,
+  QortexConnectionError,
+  QortexToolNotFoundError,
+  QortexValidationError,
+  toolError,
+  wrapMcpError,
+  type QortexErrorDetails,
+} from "./errors.js";
+import { checkResponse, type QortexValidationMode } from "./schemas.js";
+import {
+  QortexTelemetry,
+  type QortexCallTrace,
+  type QortexTelemetryOptions,
+} from "./telemetry.js";
+
+/** Transport used to reach a remote qortex server at `serverUrl`. */
+export type QortexTransportType = "auto" | "streamable-http" | "sse";
 
 export interface QortexMcpClientConfig {
   /** Command to spawn the qortex MCP server (default: "uvx") */
@@ -16,18 +45,131 @@ export interface QortexMcpClientConfig {
   serverArgs?: string[];
   /** Environment variables for the server process */
   serverEnv?: Record<string, string>;
+  /** URL of a remote qortex MCP server (skip spawning) */
+  serverUrl?: string;
+  /** Remote transport (default: "auto" -- streamable HTTP, falling back to SSE) */
+  transport?: QortexTransportType;
+  /** Extra HTTP headers sent to the remote server */
+  headers?: Record<string, string>;
+  /** Bearer token sent as the Authorization header to the remote server */
+  authToken?: string;
   /** Pre-configured MCP client (skip spawning) */
   mcpClient?: Client;
+  /** Reconnect after an unexpected close (default: true). Ignored with `mcpClient`. */
+  reconnect?: boolean | QortexReconnectOptions;
+  /** How tool responses are validated (default: "lenient") */
+  validation?: QortexValidationMode;
+  /** Receives non-fatal warnings (default: console) */
+  logger?: QortexLogger;
+  /** OpenTelemetry tracer and meter for tool calls (default: none) */
+  telemetry?: QortexTelemetryOptions;
+}
+
+/** Minimal logger for non-fatal warnings. */
+export interface QortexLogger {
+  warn(message: string): void;
+}
+
+/** Exponential backoff settings for automatic reconnects. */
+export interface QortexReconnectOptions {
+  /** Attempts before giving up (default: 5) */
+  maxRetries?: number;
+  /** Delay before the first attempt in ms (default: 500) */
+  initialDelayMs?: number;
+  /** Upper bound for a single delay in ms (default: 10000) */
+  maxDelayMs?: number;
+  /** Factor applied to the delay after each attempt (default: 2) */
+  multiplier?: number;
+}
+
+/** Timeout and cancellation for a single request. */
+export interface QortexRequestOptions {
+  /** Fail with a QortexTimeoutError after this many ms (default: SDK default, 60s). */
+  timeoutMs?: number;
+  /**
+   * Cancel the request; it then fails with a QortexAbortError and the
+   * server is sent an MCP cancel notification.
+   */
+  signal?: AbortSignal;
+}
+
+/** Per-call options for `callTool`. */
+export interface QortexCallOptions extends QortexRequestOptions {
+  /**
+   * Whether the call may be replayed after a reconnect. Defaults to true
+   * for read-only qortex tools and false for everything else.
+   */
+  idempotent?: boolean;
+}
+
+/** What the connected qortex server supports, discovered on connect. */
+export interface QortexCapabilities {
+  /** Server name from the MCP handshake, if reported. */
+  serverName: string | null;
+  /** Server version from the MCP handshake, if reported. */
+  serverVersion: string | null;
+  /** Tools the server exposes, or null if they could not be listed. */
+  tools: string[] | null;
+}
+
+/** Lifecycle events emitted by QortexMcpClient. */
+export interface QortexMcpClientEvents {
+  connecting: [];
+  connected: [];
+  disconnected: [error?: Error];
+  reconnecting: [info: { attempt: number; delayMs: number }];
+}
+
+/** Read-only tools that are safe to replay after a reconnect. */
+const IDEMPOTENT_TOOLS = new Set([
+  "qortex_query",
+  "qortex_explore",
+  "qortex_rules",
+  "qortex_vector_query",
+  "qortex_vector_get",
+  "qortex_vector_scan",
+  "qortex_vector_list_indexes",
+  "qortex_graph_export",
+]);
+
+/** Whether a tool is read-only, so a failed call may be sent again. */
+export function isIdempotentTool(name: string): boolean {
+  return IDEMPOTENT_TOOLS.has(name);
 }
 
-export class QortexMcpClient {
+const DEFAULT_RECONNECT: Required<QortexReconnectOptions> = {
+  maxRetries: 5,
+  initialDelayMs: 500,
+  maxDelayMs: 10_000,
+  multiplier: 2,
+};
+
+export class QortexMcpClient extends EventEmitter<QortexMcpClientEvents> {
   private client: Client | null = null;
-  private transport: StdioClientTransport | null = null;
+  private transport: Transport | null = null;
   private config: QortexMcpClientConfig;
+  private reconnectOptions: Required<QortexReconnectOptions> | null;
   private _connected = false;
+  private connecting: Promise<void> | null = null;
+  private reconnecting: Promise<void> | null = null;
+  private discovering: Promise<QortexCapabilities> | null = null;
+  private _capabilities: QortexCapabilities | null = null;
+  private closing = false;
+  /**
+   * Bumped by `disconnect()`. A connect that started under an older
+   * generation closes what it opened instead of installing it.
+   */
+  private generation = 0;
+  private telemetry: QortexTelemetry;
 
   constructor(config: QortexMcpClientConfig = {}) {
+    super();
     this.config = config;
+    this.telemetry = new QortexTelemetry(config.telemetry);
+    this.reconnectOptions =
+      config.reconnect === false || config.mcpClient
+        ? null
+        : { ...DEFAULT_RECONNECT, ...(config.reconnect === true ? {} : config.reconnect) };
     if (config.mcpClient) {
       this.client = config.mcpClient;
       this._connected = true;
@@ -38,41 +180,69 @@ export class QortexMcpClient {
     return this._connected;
   }
 
-  async connect(): Promise<void> {
-    if (this._connected) return;
+  /** Server tools and version, or null before the first discovery. */
+  get capabilities(): QortexCapabilities | null {
+    return this._capabilities;
+  }
 
-    const command = this.config.serverCommand ?? "uvx";
-    const args = this.config.serverArgs ?? ["qortex", "mcp-serve"];
-    const env: Record<string, string> = {};
-    for (const [k, v] of Object.entries(process.env)) {
-      if (v !== undefined) env[k] = v;
-    }
-    if (this.config.serverEnv) {
-      Object.assign(env, this.config.serverEnv);
+  async connect(): Promise<void> {
+    if (!this._connected) {
+      if (!this.connecting) {
+        this.closing = false;
+        const connecting = this.open().finally(() => {
+          if (this.connecting === connecting) this.connecting = null;
+        });
+        this.connecting = connecting;
+      }
+      await this.connecting;
     }
+    await this.discover();
+  }
 
-    this.transport = new StdioClientTransport({
-      command,
-      args,
-      env,
-    });
-
-    this.client = new Client(
-      { name: "langchain-qortex", version: "0.1.0" },
-      { capabilities: {} },
-    );
+  /**
+   * Discover the server's tools and version. The result is cached until
+   * the connection is replaced. Servers that cannot list their tools are
+   * reported with `tools: null` and every tool is assumed available.
+   */
+  async discover(): Promise<QortexCapabilities> {
+    if (!this._connected) await this.connect();
+    if (this._capabilities) return this._capabilities;
+    if (!this.discovering) {
+      const client = this.client!;
+      this.discovering = listCapabilities(client)
+        .then((capabilities) => {
+          if (client === this.client) this._capabilities = capabilities;
+          return capabilities;
+        })
+        .finally(() => {
+          this.discovering = null;
+        });
+    }
+    return this.discovering;
+  }
 
-    await this.client.connect(this.transport);
-    this._connected = true;
+  /** Whether the server exposes a tool (true while capabilities are unknown). */
+  supportsTool(name: string): boolean {
+    const tools = this._capabilities?.tools;
+    return !tools || tools.includes(name);
   }
 
   async disconnect(): Promise<void> {
-    if (this.transport) {
-      await this.transport.close();
-      this.transport = null;
-    }
+    this.closing = true;
+    this.generation++;
+    // A pending connect fails on its own; later connects start afresh.
+    this.connecting = null;
+    const transport = this.transport;
+    const wasConnected = this._connected;
+    this.transport = null;
     this.client = null;
     this._connected = false;
+    if (transport) {
+      await transport.close();
+    }
+    if (wasConnected) {
+      this.emit("disconnected");
+    }
   }
 
   /**
@@ -80,40 +250,348 @@ export class QortexMcpClient {
    *
    * @param name - Tool name (e.g. "qortex_vector_query")
    * @param args - Tool arguments as a plain object
+   * @param options - Replay, timeout and cancellation settings
    * @returns Parsed JSON result from the tool
+   * @throws QortexError subclass when the call fails or the server
+   *   reports an error (`isError`, or an `error` field in the payload)
    */
   async callTool(
     name: string,
     args: Record<string, unknown>,
+    options: QortexCallOptions = {},
   ): Promise<unknown> {
-    if (!this._connected) {
+    return this.telemetry.call(name, args, (trace) =>
+      this.send(name, args, options, trace),
+    );
+  }
+
+  /** The tool call itself; `trace` carries telemetry state both ways. */
+  private async send(
+    name: string,
+    args: Record<string, unknown>,
+    options: QortexCallOptions,
+    trace: QortexCallTrace,
+  ): Promise<unknown> {
+    const details = { toolName: name, args };
+
+    let result;
+    try {
+      options.signal?.throwIfAborted();
+      if (this.reconnecting) {
+        await this.reconnecting;
+      }
       await this.connect();
-    }
+      if (!this.supportsTool(name)) {
+        const version = this._capabilities?.serverVersion;
+        throw new QortexToolNotFoundError(
+          `${name} is unsupported by ${version ? `qortex server v${version}` : "this qortex server"}`,
+          details,
+        );
+      }
 
-    const result = await this.client!.callTool({
-      name,
-      arguments: args,
-    });
+      try {
+        result = await this.invoke(name, args, options, trace.meta);
+      } catch (err) {
+        const idempotent = options.idempotent ?? IDEMPOTENT_TOOLS.has(name);
+        if (!idempotent || !this.reconnectOptions || !isConnectionClosed(err)) {
+          throw err;
+        }
+        await this.scheduleReconnect();
+        result = await this.invoke(name, args, options, trace.meta);
+      }
+    } catch (err) {
+      if (options.signal?.aborted) {
+        throw new QortexAbortError(`${name} was aborted`, {
+          ...details,
+          cause: options.signal.reason,
+        });
+      }
+      throw wrapMcpError(err, details);
+    }
 
     // MCP tool results come as content blocks
     const content = result.content as Array<{ type: string; text?: string }>;
-    if (!content || content.length === 0) {
-      return {};
+    const textBlock = content?.find((c) => c.type === "text");
+    if (textBlock?.text !== undefined) {
+      trace.responseBytes = Buffer.byteLength(textBlock.text);
     }
-
-    const textBlock = content.find((c) => c.type === "text");
     if (!textBlock?.text) {
+      if (result.isError) {
+        throw toolError(`MCP tool error: ${name} failed`, { ...details, payload: result });
+      }
       return {};
     }
 
-    // Handle MCP error responses that aren't valid JSON
+    let parsed: unknown;
     try {
-      return JSON.parse(textBlock.text);
+      parsed = JSON.parse(textBlock.text);
     } catch {
+      // Handle MCP error responses that aren't valid JSON
       if (result.isError) {
-        throw new Error(`MCP tool error: ${textBlock.text}`);
+        throw toolError(textBlock.text, { ...details, payload: textBlock.text });
       }
       return { raw: textBlock.text };
     }
+
+    const error = (parsed as { error?: unknown } | null)?.error;
+    if (result.isError || (typeof error === "string" && error)) {
+      const message = typeof error === "string" && error ? error : textBlock.text;
+      throw toolError(message, { ...details, payload: parsed });
+    }
+    return this.validate(name, parsed, details);
+  }
+
+  /** Check the connection with an MCP ping. */
+  async ping(options: QortexRequestOptions = {}): Promise<void> {
+    try {
+      await this.connect();
+      await this.client!.ping({ timeout: options.timeoutMs, signal: options.signal });
+    } catch (err) {
+      throw wrapMcpError(err);
+    }
+  }
+
+  /**
+   * Send the request, passing `_meta` (trace context) and the timeout and
+   * signal to the SDK only when set.
+   */
+  private invoke(
+    name: string,
+    args: Record<string, unknown>,
+    { timeoutMs, signal }: QortexCallOptions,
+    meta?: Record<string, string>,
+  ) {
+    const params = meta ? { name, arguments: args, _meta: meta } : { name, arguments: args };
+    if (timeoutMs === undefined && signal === undefined) {
+      return this.client!.callTool(params);
+    }
+    return this.client!.callTool(params, undefined, { timeout: timeoutMs, signal });
   }
+
+  /**
+   * Check a response against its tool schema. Strict mode throws; lenient
+   * mode logs the problems and returns the payload with defaults filled in.
+   */
+  private validate(
+    name: string,
+    parsed: unknown,
+    details: QortexErrorDetails,
+  ): unknown {
+    const mode = this.config.validation ?? "lenient";
+    if (mode === "off") return parsed;
+
+    const check = checkResponse(name, parsed, mode === "lenient");
+    if (check.ok) return check.value;
+
+    const message = `Invalid ${name} response: ${check.issues.join("; ")}`;
+    if (mode === "strict" || check.value === undefined) {
+      throw new QortexValidationError(message, {
+        ...details,
+        payload: parsed,
+        issues: check.issues,
+      });
+    }
+    (this.config.logger ?? console).warn(`${message} (using defaults)`);
+    return check.value;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lifecycle
+  // ---------------------------------------------------------------------------
+
+  private async open(): Promise<void> {
+    const generation = this.generation;
+    this._capabilities = null;
+    this.emit("connecting");
+    try {
+      if (this.config.serverUrl) {
+        await this.connectRemote(this.config.serverUrl, generation);
+      } else {
+        await this.connectStdio(generation);
+      }
+    } catch (err) {
+      if (err instanceof QortexConnectionError) throw err;
+      throw new QortexConnectionError(
+        `Failed to connect to qortex MCP server: ${errorMessage(err)}`,
+        { cause: err },
+      );
+    }
+    this._connected = true;
+    this.emit("connected");
+  }
+
+  /** Called when an owned connection closes without `disconnect()`. */
+  private handleClose(client: Client, error?: Error): void {
+    if (client !== this.client || this.closing) return;
+
+    this.transport = null;
+    this.client = null;
+    this._connected = false;
+    this.emit("disconnected", error);
+
+    if (this.reconnectOptions) {
+      // Callers waiting on the reconnect see its failure; nobody else needs to.
+      this.scheduleReconnect().catch(() => {});
+    }
+  }
+
+  private scheduleReconnect(): Promise<void> {
+    if (!this.reconnecting) {
+      this.reconnecting = this.reconnectWithBackoff().finally(() => {
+        this.reconnecting = null;
+      });
+    }
+    return this.reconnecting;
+  }
+
+  private async reconnectWithBackoff(): Promise<void> {
+    const { maxRetries, initialDelayMs, maxDelayMs, multiplier } =
+      this.reconnectOptions!;
+    const generation = this.generation;
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      const delayMs = Math.min(
+        initialDelayMs * multiplier ** (attempt - 1),
+        maxDelayMs,
+      );
+      this.emit("reconnecting", { attempt, delayMs });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      // `closing` alone is not enough: a connect() since then resets it.
+      if (this.closing || generation !== this.generation) {
+        throw new QortexConnectionError("Client disconnected while reconnecting");
+      }
+
+      try {
+        await this.connect();
+        return;
+      } catch (err) {
+        if (generation !== this.generation) throw err;
+        lastError = err;
+      }
+    }
+
+    throw new QortexConnectionError(
+      `Failed to reconnect to qortex MCP server after ${maxRetries} attempts: ${errorMessage(lastError)}`,
+      { cause: lastError },
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Transports
+  // ---------------------------------------------------------------------------
+
+  private async connectStdio(generation: number): Promise<void> {
+    const command = this.config.serverCommand ?? "uvx";
+    const args = this.config.serverArgs ?? ["qortex", "mcp-serve"];
+    const env: Record<string, string> = {};
+    for (const [k, v] of Object.entries(process.env)) {
+      if (v !== undefined) env[k] = v;
+    }
+    if (this.config.serverEnv) {
+      Object.assign(env, this.config.serverEnv);
+    }
+
+    await this.openTransport(new StdioClientTransport({ command, args, env }), generation);
+  }
+
+  /**
+   * Connect to a remote server. In "auto" mode, streamable HTTP is tried
+   * first and older servers that only speak SSE are retried over SSE.
+   */
+  private async connectRemote(serverUrl: string, generation: number): Promise<void> {
+    const url = new URL(serverUrl);
+    const requestInit: RequestInit = { headers: this.remoteHeaders() };
+    const mode = this.config.transport ?? "auto";
+
+    if (mode !== "sse") {
+      try {
+        await this.openTransport(
+          new StreamableHTTPClientTransport(url, { requestInit }),
+          generation,
+        );
+        return;
+      } catch (err) {
+        if (mode === "streamable-http" || generation !== this.generation) throw err;
+      }
+    }
+
+    await this.openTransport(new SSEClientTransport(url, { requestInit }), generation);
+  }
+
+  private remoteHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { ...this.config.headers };
+    if (this.config.authToken) {
+      headers.Authorization = `Bearer ${this.config.authToken}`;
+    }
+    return headers;
+  }
+
+  /**
+   * Connect an MCP client over `transport` and install it, unless
+   * `disconnect()` was called meanwhile (`generation` moved on).
+   */
+  private async openTransport(transport: Transport, generation: number): Promise<void> {
+    const client = new Client(
+      { name: "langchain-qortex", version: "0.1.0" },
+      { capabilities: {} },
+    );
+
+    try {
+      await client.connect(transport);
+    } catch (err) {
+      await transport.close().catch(() => {});
+      throw err;
+    }
+    if (generation !== this.generation) {
+      await transport.close().catch(() => {});
+      throw new QortexConnectionError("Client disconnected while connecting");
+    }
+    this.client = client;
+    this.transport = transport;
+
+    let lastError: Error | undefined;
+    client.onerror = (error) => {
+      lastError = error;
+    };
+    client.onclose = () => this.handleClose(client, lastError);
+  }
+}
+
+async function listCapabilities(client: Client): Promise<QortexCapabilities> {
+  // Pre-configured clients may be partial; treat missing methods as unknown.
+  const server =
+    typeof client.getServerVersion === "function"
+      ? client.getServerVersion()
+      : undefined;
+
+  let tools: string[] | null = null;
+  if (typeof client.listTools === "function") {
+    try {
+      const names: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await client.listTools(cursor ? { cursor } : undefined);
+        names.push(...page.tools.map((tool) => tool.name));
+        cursor = page.nextCursor;
+      } while (cursor);
+      tools = names;
+    } catch {
+      tools = null;
+    }
+  }
+
+  return {
+    serverName: server?.name ?? null,
+    serverVersion: server?.version ?? null,
+    tools,
+  };
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function isConnectionClosed(err: unknown): boolean {
+  return err instanceof McpError && err.code === ErrorCode.ConnectionClosed;
 }
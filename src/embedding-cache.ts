@@ -0,0 +1,207 @@
+/**
+ * QortexCachedEmbeddings: cache embeddings by model and text.
+ *
+ * Wraps any LangChain EmbeddingsInterface (including QortexEmbeddings) so
+ * each text is embedded once per model. Keys are a SHA-256 of the model
+ * identity, the kind of embedding (document or query, which some models
+ * embed differently) and the text, so re-indexing unchanged documents
+ * costs no embedding calls.
+ *
+ * Storage is pluggable through QortexEmbeddingStore, whose `mget` / `mset`
+ * match LangChain's BaseStore, so any key-value store (SQLite, Redis, ...)
+ * can back it. Built in: an in-memory store (the default) and a JSONL file
+ * store that survives restarts (`path`).
+ */
+
+import { createHash } from "node:crypto";
+import { appendFile } from "node:fs/promises";
+import {
+  Embeddings,
+  type EmbeddingsInterface,
+  type EmbeddingsParams,
+} from "@langchain/core/embeddings";
+import { QortexValidationError } from "./errors.js";
+import { readJsonLines } from "./jsonl.js";
+
+/** Storage for cached embeddings. Methods may be sync or async. */
+export interface QortexEmbeddingStore {
+  /** Embeddings for `keys`, undefined where missing. */
+  mget(keys: string[]): (number[] | undefined)[] | Promise<(number[] | undefined)[]>;
+  mset(entries: [string, number[]][]): void | Promise<void>;
+}
+
+/** Options for the embedding cache. */
+export interface QortexEmbeddingCacheOptions {
+  /** Storage (default: in memory, or a QortexFileEmbeddingStore with `path`). */
+  store?: QortexEmbeddingStore;
+  /** JSONL file to keep embeddings in across restarts. */
+  path?: string;
+  /**
+   * Identifies the model in cache keys (default: derived from the
+   * embeddings' class, `model` / `modelName` and `dimensions`, or those of
+   * the model object they wrap, as in QortexEmbeddings). Required with
+   * `store` or `path` when nothing identifies the model.
+   */
+  modelId?: string;
+}
+
+export interface QortexCachedEmbeddingsParams
+  extends EmbeddingsParams,
+    QortexEmbeddingCacheOptions {
+  /** The embeddings to cache. */
+  embeddings: EmbeddingsInterface;
+}
+
+/** Cache lookups since the wrapper was created, counted per text. */
+export interface QortexEmbeddingCacheStats {
+  hits: number;
+  misses: number;
+}
+
+/** Embeddings kept in a Map; the default store. */
+export class QortexMemoryEmbeddingStore implements QortexEmbeddingStore {
+  protected entries = new Map<string, number[]>();
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  mget(keys: string[]): (number[] | undefined)[] {
+    return keys.map((key) => this.entries.get(key));
+  }
+
+  mset(entries: [string, number[]][]): void {
+    for (const [key, embedding] of entries) this.entries.set(key, embedding);
+  }
+}
+
+/**
+ * Embeddings kept in memory and appended to a JSONL file (one
+ * `{key, embedding}` per line), which is read back on construction.
+ */
+export class QortexFileEmbeddingStore extends QortexMemoryEmbeddingStore {
+  private path: string;
+  /** Serializes appends. */
+  private chain: Promise<unknown> = Promise.resolve();
+
+  constructor(path: string) {
+    super();
+    this.path = path;
+    for (const { key, embedding } of readJsonLines<{ key: string; embedding: number[] }>(path)) {
+      this.entries.set(key, embedding);
+    }
+  }
+
+  async mset(entries: [string, number[]][]): Promise<void> {
+    const fresh = entries.filter(([key]) => !this.entries.has(key));
+    super.mset(entries);
+    if (fresh.length === 0) return;
+    const lines = fresh
+      .map(([key, embedding]) => JSON.stringify({ key, embedding }) + "\n")
+      .join("");
+    const write = this.chain.then(() => appendFile(this.path, lines));
+    this.chain = write.catch(() => {});
+    await write;
+  }
+}
+
+export class QortexCachedEmbeddings extends Embeddings {
+  private embeddings: EmbeddingsInterface;
+  private store: QortexEmbeddingStore;
+  private modelId: string;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(params: QortexCachedEmbeddingsParams) {
+    super(params);
+    this.embeddings = params.embeddings;
+    this.store =
+      params.store ??
+      (params.path
+        ? new QortexFileEmbeddingStore(params.path)
+        : new QortexMemoryEmbeddingStore());
+    const modelId = params.modelId ?? modelIdentity(params.embeddings);
+    if (modelId === null && (params.store || params.path)) {
+      // A shared or persistent store would mix up this model's vectors with another's
+      throw new QortexValidationError(
+        `Cannot identify the model behind ${params.embeddings.constructor.name}; set modelId to cache its embeddings in a store`,
+      );
+    }
+    // The default store only ever holds this wrapper's model
+    this.modelId = modelId ?? "";
+  }
+
+  get stats(): QortexEmbeddingCacheStats {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  /** Embed the texts not cached yet (each distinct text once), in one call. */
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const keys = texts.map((text) => this.key("document", text));
+    const cached = await this.store.mget(keys);
+
+    const missing = new Map<string, string>();
+    texts.forEach((text, i) => {
+      if (cached[i] === undefined) missing.set(keys[i], text);
+    });
+    this.misses += missing.size;
+    this.hits += cached.filter((embedding) => embedding !== undefined).length;
+    if (missing.size === 0) return cached as number[][];
+
+    const embedded = await this.embeddings.embedDocuments([...missing.values()]);
+    const entries = [...missing.keys()].map(
+      (key, i): [string, number[]] => [key, embedded[i]],
+    );
+    await this.store.mset(entries);
+
+    const byKey = new Map(entries);
+    return keys.map((key, i) => cached[i] ?? byKey.get(key)!);
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const key = this.key("query", text);
+    const [cached] = await this.store.mget([key]);
+    if (cached !== undefined) {
+      this.hits++;
+      return cached;
+    }
+    this.misses++;
+    const embedding = await this.embeddings.embedQuery(text);
+    await this.store.mset([[key, embedding]]);
+    return embedding;
+  }
+
+  private key(kind: "document" | "query", text: string): string {
+    return createHash("sha256")
+      .update(`${this.modelId}\n${kind}\n${text}`)
+      .digest("hex");
+  }
+}
+
+/**
+ * Best-effort model identity: class name, model name and dimensions. When
+ * `model` is an object (QortexEmbeddings wraps one), its own identity
+ * stands in for the name. Null if nothing names a model: a plain object
+ * without a model name, or a wrapper around one.
+ */
+function modelIdentity(value: object): string | null {
+  const fields = value as {
+    model?: unknown;
+    modelName?: unknown;
+    dimensions?: unknown;
+  };
+  const className =
+    value.constructor !== Object ? value.constructor?.name || undefined : undefined;
+  const model =
+    typeof fields.model === "string"
+      ? fields.model
+      : typeof fields.modelName === "string"
+        ? fields.modelName
+        : fields.model && typeof fields.model === "object"
+          ? modelIdentity(fields.model)
+          : undefined;
+  if (model === null || (model === undefined && !className)) return null;
+  return [className, model, fields.dimensions]
+    .filter((part) => part !== undefined)
+    .join(":");
+}
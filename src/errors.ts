@@ -0,0 +1,147 @@
+/**
+ * Typed errors for qortex tool failures.
+ *
+ * Every failure surfaced by QortexMcpClient (and therefore every
+ * QortexVectorStore method) is a QortexError subclass carrying the tool
+ * name, the arguments it was called with, and the raw server payload, so
+ * callers can branch on `instanceof` instead of matching message strings.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { QortexIngestSummary } from "./ingest.js";
+
+export interface QortexErrorDetails {
+  /** Tool that failed (e.g. "qortex_vector_query"). */
+  toolName?: string;
+  /** Arguments the tool was called with. */
+  args?: Record<string, unknown>;
+  /** Raw payload returned by the server, if any. */
+  payload?: unknown;
+  /** Underlying error, if any. */
+  cause?: unknown;
+}
+
+/** Base class for all qortex errors. */
+export class QortexError extends Error {
+  readonly toolName?: string;
+  readonly args?: Record<string, unknown>;
+  readonly payload?: unknown;
+
+  constructor(message: string, details: QortexErrorDetails = {}) {
+    super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+    this.name = new.target.name;
+    this.toolName = details.toolName;
+    this.args = details.args;
+    this.payload = details.payload;
+  }
+}
+
+/** The MCP connection could not be established or was lost. */
+export class QortexConnectionError extends QortexError {}
+
+/** A tool call did not finish within its timeout. */
+export class QortexTimeoutError extends QortexConnectionError {}
+
+/** A tool call was cancelled through its AbortSignal. */
+export class QortexAbortError extends QortexError {}
+
+/** The server does not expose the requested tool. */
+export class QortexToolNotFoundError extends QortexError {}
+
+/** The referenced vector index does not exist. */
+export class QortexIndexNotFoundError extends QortexError {
+  readonly indexName?: string;
+
+  constructor(message: string, details: QortexErrorDetails = {}) {
+    super(message, details);
+    const indexName = details.args?.index_name;
+    this.indexName = typeof indexName === "string" ? indexName : undefined;
+  }
+}
+
+/** Vector dimension does not match the index. */
+export class QortexDimensionMismatchError extends QortexError {}
+
+/** Arguments or a response failed validation. */
+export class QortexValidationError extends QortexError {
+  /** Individual problems, as "path: message" strings. */
+  readonly issues: string[];
+
+  constructor(
+    message: string,
+    details: QortexErrorDetails & { issues?: string[] } = {},
+  ) {
+    super(message, details);
+    this.issues = details.issues ?? [];
+  }
+}
+
+/** Any other error reported by the qortex server. */
+export class QortexServerError extends QortexError {}
+
+/** Some batches of an ingestion run failed after all retries. */
+export class QortexIngestError extends QortexError {
+  readonly summary: QortexIngestSummary;
+
+  constructor(summary: QortexIngestSummary) {
+    super(
+      `Failed to ingest ${summary.failedIds.length} of ${summary.total} documents: ${
+        summary.errors[0]?.message ?? "unknown error"
+      }`,
+      { cause: summary.errors[0] },
+    );
+    this.summary = summary;
+  }
+}
+
+/**
+ * Map a tool-level error message to the matching QortexError subclass.
+ * The qortex server reports failures as free text, so this is heuristic;
+ * anything unrecognised becomes a QortexServerError.
+ */
+export function toolError(
+  message: string,
+  details: QortexErrorDetails = {},
+): QortexError {
+  if (/unknown tool|tool .*not found/i.test(message)) {
+    return new QortexToolNotFoundError(message, details);
+  }
+  if (/index.*(not found|does not exist)|no such index/i.test(message)) {
+    return new QortexIndexNotFoundError(message, details);
+  }
+  if (/dimension/i.test(message)) {
+    return new QortexDimensionMismatchError(message, details);
+  }
+  if (/validation|invalid/i.test(message)) {
+    return new QortexValidationError(message, details);
+  }
+  return new QortexServerError(message, details);
+}
+
+/** Wrap an error thrown by the MCP SDK during a tool call. */
+export function wrapMcpError(
+  err: unknown,
+  details: QortexErrorDetails = {},
+): QortexError {
+  if (err instanceof QortexError) return err;
+
+  const message = err instanceof Error ? err.message : String(err);
+  const withCause = { ...details, cause: err };
+  if (err instanceof McpError) {
+    switch (err.code) {
+      case ErrorCode.ConnectionClosed:
+        return new QortexConnectionError(message, withCause);
+      case ErrorCode.RequestTimeout:
+        return new QortexTimeoutError(message, withCause);
+      case ErrorCode.MethodNotFound:
+        return new QortexToolNotFoundError(message, withCause);
+      case ErrorCode.InvalidParams:
+        return /unknown tool|tool .*not found/i.test(message)
+          ? new QortexToolNotFoundError(message, withCause)
+          : new QortexValidationError(message, withCause);
+      default:
+        return toolError(message, withCause);
+    }
+  }
+  return new QortexConnectionError(message, withCause);
+}
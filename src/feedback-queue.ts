@@ -0,0 +1,163 @@
+/**
+ * Offline feedback queue for QortexVectorStore.feedback.
+ *
+ * Feedback that cannot be delivered because the server is unreachable is
+ * buffered here instead of being lost. Outcomes are keyed by query id and
+ * document id, so repeated feedback for the same pair keeps only the latest
+ * outcome. With a `path`, the queue is mirrored to a JSONL file (one
+ * `{query_id, id, outcome}` per line) and reloaded on the next start.
+ *
+ * `flush()` sends one qortex_feedback call per query (split into batches of
+ * `batchSize` outcomes). Connection failures leave the rest queued for the
+ * next flush; feedback the server rejects for other reasons is dropped so
+ * it cannot block the queue.
+ */
+
+import { appendFile, rm, writeFile } from "node:fs/promises";
+import { QortexConnectionError } from "./errors.js";
+import { readJsonLines } from "./jsonl.js";
+import type { FeedbackOutcome } from "./types.js";
+
+/** Options for the offline feedback queue. */
+export interface QortexFeedbackQueueOptions {
+  /** JSONL file to persist pending feedback in (default: memory only). */
+  path?: string;
+  /** Outcomes per qortex_feedback call when flushing (default: 100). */
+  batchSize?: number;
+}
+
+/** Outcome of a flush. */
+export interface QortexFeedbackFlushResult {
+  /** Outcomes the server accepted. */
+  sent: number;
+  /** Outcomes the server rejected; they are not retried. */
+  dropped: number;
+  /** Outcomes still queued (the server was unreachable). */
+  pending: number;
+}
+
+/** Delivers one batch of outcomes for one query. */
+export type FeedbackSender = (
+  queryId: string,
+  outcomes: Record<string, FeedbackOutcome>,
+) => Promise<void>;
+
+interface QueuedOutcome {
+  query_id: string;
+  id: string;
+  outcome: FeedbackOutcome;
+}
+
+export class FeedbackQueue {
+  private send: FeedbackSender;
+  private path?: string;
+  private batchSize: number;
+  /** query id -> document id -> outcome, in arrival order. */
+  private entries = new Map<string, Map<string, FeedbackOutcome>>();
+  /** Serializes file writes and flushes. */
+  private chain: Promise<unknown> = Promise.resolve();
+  private flushing: Promise<QortexFeedbackFlushResult> | null = null;
+
+  constructor(
+    options: QortexFeedbackQueueOptions,
+    send: FeedbackSender,
+  ) {
+    this.send = send;
+    this.path = options.path;
+    this.batchSize = options.batchSize ?? 100;
+    if (this.path) {
+      for (const outcome of readJsonLines<QueuedOutcome>(this.path)) this.set(outcome);
+    }
+  }
+
+  /** Outcomes waiting to be sent. */
+  get size(): number {
+    let size = 0;
+    for (const outcomes of this.entries.values()) size += outcomes.size;
+    return size;
+  }
+
+  /** Queue outcomes for a query, replacing earlier ones for the same documents. */
+  async add(
+    queryId: string,
+    outcomes: Record<string, FeedbackOutcome>,
+  ): Promise<void> {
+    const lines = Object.entries(outcomes).map(([id, outcome]) => {
+      this.set({ query_id: queryId, id, outcome });
+      return JSON.stringify({ query_id: queryId, id, outcome }) + "\n";
+    });
+    const path = this.path;
+    if (path && lines.length > 0) {
+      await this.enqueue(() => appendFile(path, lines.join("")));
+    }
+  }
+
+  /** Send everything queued. Concurrent calls share one flush. */
+  flush(): Promise<QortexFeedbackFlushResult> {
+    if (!this.flushing) {
+      this.flushing = this.enqueue(() => this.flushAll()).finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async flushAll(): Promise<QortexFeedbackFlushResult> {
+    let sent = 0;
+    let dropped = 0;
+
+    flush: for (const [queryId, outcomes] of [...this.entries]) {
+      const ids = [...outcomes.keys()];
+      for (let i = 0; i < ids.length; i += this.batchSize) {
+        const batch = Object.fromEntries(
+          ids.slice(i, i + this.batchSize).map((id) => [id, outcomes.get(id)!]),
+        );
+        try {
+          await this.send(queryId, batch);
+          sent += Object.keys(batch).length;
+        } catch (err) {
+          if (err instanceof QortexConnectionError) break flush;
+          dropped += Object.keys(batch).length;
+        }
+        // add() may have replaced outcomes, or queued new ones for this
+        // query, while the batch was in flight; those stay queued
+        for (const [id, outcome] of Object.entries(batch)) {
+          if (outcomes.get(id) === outcome) outcomes.delete(id);
+        }
+      }
+      if (outcomes.size === 0) this.entries.delete(queryId);
+    }
+
+    await this.persist();
+    return { sent, dropped, pending: this.size };
+  }
+
+  private set(entry: QueuedOutcome): void {
+    const outcomes = this.entries.get(entry.query_id) ?? new Map();
+    outcomes.delete(entry.id);
+    outcomes.set(entry.id, entry.outcome);
+    this.entries.set(entry.query_id, outcomes);
+  }
+
+  /** Rewrite the file with what is still queued (compacting duplicates). */
+  private async persist(): Promise<void> {
+    if (!this.path) return;
+    if (this.size === 0) {
+      await rm(this.path, { force: true });
+      return;
+    }
+    const lines: string[] = [];
+    for (const [queryId, outcomes] of this.entries) {
+      for (const [id, outcome] of outcomes) {
+        lines.push(JSON.stringify({ query_id: queryId, id, outcome }) + "\n");
+      }
+    }
+    await writeFile(this.path, lines.join(""));
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.chain.then(task, task);
+    this.chain = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * Structured filter language shared by vector and graph queries.
+ *
+ * A filter is an implicit AND of field conditions on document metadata,
+ * plus `$and` / `$or` combinators and two graph predicates (`domains`,
+ * `min_confidence`). Each query path sends the server whatever it can
+ * express and evaluates the remaining clauses on the client, so no clause
+ * is ever silently dropped.
+ *
+ *   {
+ *     domains: ["security"],
+ *     min_confidence: 0.5,
+ *     source: "rfc6749",
+ *     year: { $gte: 2020 },
+ *     $or: [{ tag: { $in: ["auth", "jwt"] } }, { reviewed: { $exists: true } }],
+ *   }
+ */
+
+import { QortexValidationError } from "./errors.js";
+
+type Scalar = string | number | boolean | null;
+
+/** Operators available on a single metadata field. */
+export interface QortexFieldOperators {
+  $eq?: Scalar;
+  $ne?: Scalar;
+  $in?: Scalar[];
+  $nin?: Scalar[];
+  $gt?: number | string;
+  $gte?: number | string;
+  $lt?: number | string;
+  $lte?: number | string;
+  $exists?: boolean;
+}
+
+/** A scalar (shorthand for `$eq`) or an operator object. */
+export type QortexFieldCondition = Scalar | QortexFieldOperators;
+
+/** Filter accepted by every QortexVectorStore search and delete method. */
+export type QortexFilter = {
+  $and?: QortexFilter[];
+  $or?: QortexFilter[];
+  /** Graph predicate: restrict to these domains. */
+  domains?: string[];
+  /** Graph predicate: minimum concept confidence. */
+  min_confidence?: number;
+} & {
+  [field: string]: QortexFieldCondition | QortexFilter[] | string[] | undefined;
+};
+
+/** Client-side remainder of a filter. */
+export type MetadataPredicate = (metadata: Record<string, unknown>) => boolean;
+
+/** A filter split for qortex_vector_query. */
+export interface CompiledVectorFilter {
+  /** Clauses the server evaluates, or undefined if there are none. */
+  server?: Record<string, unknown>;
+  /** Clauses left for the client, or undefined if there are none. */
+  client?: MetadataPredicate;
+}
+
+/** A filter split for qortex_query. */
+export interface CompiledGraphFilter {
+  domains?: string[];
+  minConfidence?: number;
+  client?: MetadataPredicate;
+}
+
+const OPERATORS = new Set([
+  "$eq", "$ne", "$in", "$nin", "$gt", "$gte", "$lt", "$lte", "$exists",
+]);
+
+/** Operators qortex_vector_query evaluates natively. */
+const SERVER_OPERATORS = new Set(["$eq", "$in", "$gt", "$gte", "$lt", "$lte"]);
+
+/**
+ * Split a filter for qortex_vector_query. Equality, `$in` and range
+ * clauses (including those nested in `$and`) go to the server; `$or`,
+ * `$ne`, `$nin` and `$exists` run on the client. The graph predicates
+ * become conditions on the `domain` and `confidence` metadata fields.
+ */
+export function compileVectorFilter(
+  filter: QortexFilter | undefined,
+): CompiledVectorFilter {
+  if (!filter) return {};
+
+  const server: Record<string, unknown> = {};
+  const client: QortexFilter[] = [];
+
+  for (const clause of conjuncts(filter)) {
+    const [[field, condition]] = Object.entries(clause);
+    if (field === "$or") {
+      client.push(clause);
+    } else if (field === "domains") {
+      addServerClause(server, client, "domain", { $in: condition as string[] });
+    } else if (field === "min_confidence") {
+      addServerClause(server, client, "confidence", { $gte: condition as number });
+    } else if (isServerCondition(condition)) {
+      addServerClause(server, client, field, condition);
+    } else {
+      client.push(clause);
+    }
+  }
+
+  return {
+    server: Object.keys(server).length ? server : undefined,
+    client: client.length ? toPredicate({ $and: client }) : undefined,
+  };
+}
+
+/**
+ * Split a filter for qortex_query. Top-level `domains` and
+ * `min_confidence` go to the server; every other clause runs on the
+ * client against the result metadata (which includes `domain`, `score`
+ * and `node_id`).
+ */
+export function compileGraphFilter(
+  filter: QortexFilter | undefined,
+): CompiledGraphFilter {
+  if (!filter) return {};
+
+  const compiled: CompiledGraphFilter = {};
+  const client: QortexFilter[] = [];
+  for (const clause of conjuncts(filter)) {
+    const [[field, condition]] = Object.entries(clause);
+    if (field === "domains" && compiled.domains === undefined) {
+      compiled.domains = condition as string[];
+    } else if (field === "min_confidence" && compiled.minConfidence === undefined) {
+      compiled.minConfidence = condition as number;
+    } else {
+      client.push(clause);
+    }
+  }
+
+  if (client.length) compiled.client = toPredicate({ $and: client });
+  return compiled;
+}
+
+/** Evaluate a whole filter against metadata. */
+export function matchesFilter(
+  filter: QortexFilter,
+  metadata: Record<string, unknown>,
+): boolean {
+  return toPredicate(filter)(metadata);
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+/** Flatten top-level fields and nested `$and`s into single-key clauses. */
+function conjuncts(filter: QortexFilter): QortexFilter[] {
+  const clauses: QortexFilter[] = [];
+  for (const [field, condition] of Object.entries(filter)) {
+    if (condition === undefined) continue;
+    if (field === "$and") {
+      for (const nested of asFilterList(field, condition)) {
+        clauses.push(...conjuncts(nested));
+      }
+    } else {
+      validateClause(field, condition);
+      clauses.push({ [field]: condition } as QortexFilter);
+    }
+  }
+  return clauses;
+}
+
+function addServerClause(
+  server: Record<string, unknown>,
+  client: QortexFilter[],
+  field: string,
+  condition: unknown,
+): void {
+  // A field constrained twice keeps the first clause server-side.
+  if (field in server) {
+    client.push({ [field]: condition } as QortexFilter);
+  } else {
+    server[field] = condition;
+  }
+}
+
+function isServerCondition(condition: unknown): boolean {
+  if (!isOperatorObject(condition)) return true;
+  return Object.keys(condition).every((op) => SERVER_OPERATORS.has(op));
+}
+
+function isOperatorObject(value: unknown): value is QortexFieldOperators {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asFilterList(field: string, value: unknown): QortexFilter[] {
+  if (!Array.isArray(value)) {
+    throw new QortexValidationError(`${field} expects an array of filters`, {
+      args: { [field]: value },
+    });
+  }
+  return value as QortexFilter[];
+}
+
+function validateClause(field: string, condition: unknown): void {
+  const invalid = (message: string) =>
+    new QortexValidationError(`Invalid filter on "${field}": ${message}`, {
+      args: { [field]: condition },
+    });
+
+  if (field === "$or") {
+    asFilterList(field, condition).forEach((nested) => conjuncts(nested));
+    return;
+  }
+  if (field === "domains") {
+    if (!Array.isArray(condition)) throw invalid("expected an array of domains");
+    return;
+  }
+  if (field === "min_confidence") {
+    if (typeof condition !== "number") throw invalid("expected a number");
+    return;
+  }
+  if (field.startsWith("$")) throw invalid("unknown combinator");
+  if (!isOperatorObject(condition)) return;
+
+  for (const [op, operand] of Object.entries(condition)) {
+    if (!OPERATORS.has(op)) throw invalid(`unknown operator ${op}`);
+    if ((op === "$in" || op === "$nin") && !Array.isArray(operand)) {
+      throw invalid(`${op} expects an array`);
+    }
+  }
+}
+
+function toPredicate(filter: QortexFilter): MetadataPredicate {
+  const clauses = Object.entries(filter).filter(([, c]) => c !== undefined);
+  return (metadata) =>
+    clauses.every(([field, condition]) => {
+      switch (field) {
+        case "$and":
+          return (condition as QortexFilter[]).every((f) => matchesFilter(f, metadata));
+        case "$or":
+          return (condition as QortexFilter[]).some((f) => matchesFilter(f, metadata));
+        case "domains":
+          return (condition as string[]).includes(metadata.domain as string);
+        case "min_confidence":
+          return (
+            typeof metadata.confidence === "number" &&
+            metadata.confidence >= (condition as number)
+          );
+        default:
+          return matchesCondition(metadata[field], field in metadata, condition);
+      }
+    });
+}
+
+function matchesCondition(
+  value: unknown,
+  exists: boolean,
+  condition: unknown,
+): boolean {
+  if (!isOperatorObject(condition)) return value === condition;
+
+  return Object.entries(condition).every(([op, operand]) => {
+    switch (op) {
+      case "$eq":
+        return value === operand;
+      case "$ne":
+        return value !== operand;
+      case "$in":
+        return (operand as unknown[]).includes(value);
+      case "$nin":
+        return !(operand as unknown[]).includes(value);
+      case "$exists":
+        return exists === operand;
+      default:
+        return compare(value, op, operand);
+    }
+  });
+}
+
+function compare(value: unknown, op: string, operand: unknown): boolean {
+  const comparable = typeof value === "number" || typeof value === "string";
+  if (!comparable || typeof value !== typeof operand) return false;
+  const a = value as number | string;
+  const b = operand as number | string;
+  switch (op) {
+    case "$gt":
+      return a > b;
+    case "$gte":
+      return a >= b;
+    case "$lt":
+      return a < b;
+    case "$lte":
+      return a <= b;
+    default:
+      return false;
+  }
+}
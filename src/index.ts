@@ -1,12 +1,95 @@
 export {
   QortexVectorStore,
   type QortexVectorStoreConfig,
+  type QortexGetByIdsResult,
+  type QortexIndexStats,
+  type QortexSearchResult,
+  type QortexVectorStoreFields,
 } from "./vectorstore.js";
+export { qortexImportMap } from "./load.js";
+export { withQueryScope, withRequestOptions } from "./scope.js";
+export {
+  QortexGraphRetriever,
+  QortexVectorStoreRetriever,
+  type QortexGraphRetrieverInput,
+} from "./retriever.js";
+export {
+  QortexFeedbackHandler,
+  type QortexFeedbackHandlerInput,
+  type QortexFeedbackEvaluator,
+  type QortexFeedbackRating,
+  type QortexFeedbackRun,
+} from "./callbacks.js";
 export { QortexEmbeddings, type QortexEmbeddingsParams } from "./embeddings.js";
+export {
+  QortexCachedEmbeddings,
+  QortexMemoryEmbeddingStore,
+  QortexFileEmbeddingStore,
+  type QortexCachedEmbeddingsParams,
+  type QortexEmbeddingCacheOptions,
+  type QortexEmbeddingCacheStats,
+  type QortexEmbeddingStore,
+} from "./embedding-cache.js";
 export {
   QortexMcpClient,
   type QortexMcpClientConfig,
+  type QortexTransportType,
+  type QortexReconnectOptions,
+  type QortexCallOptions,
+  type QortexRequestOptions,
+  type QortexMcpClientEvents,
+  type QortexLogger,
+  type QortexCapabilities,
 } from "./client.js";
+export {
+  QortexMcpPool,
+  type QortexPoolOptions,
+  type QortexPoolMemberStats,
+} from "./pool.js";
+export {
+  matchesFilter,
+  type QortexFilter,
+  type QortexFieldCondition,
+  type QortexFieldOperators,
+} from "./filter.js";
+export type { QortexValidationMode } from "./schemas.js";
+export type { QortexTelemetryOptions } from "./telemetry.js";
+export {
+  QortexLruCache,
+  type QortexCacheAdapter,
+  type QortexCacheOptions,
+} from "./cache.js";
+export type {
+  QortexFeedbackQueueOptions,
+  QortexFeedbackFlushResult,
+} from "./feedback-queue.js";
+export {
+  SNAPSHOT_VERSION,
+  type QortexSnapshotHeader,
+  type QortexSnapshotRecord,
+  type QortexExportSnapshotOptions,
+  type QortexImportSnapshotOptions,
+  type QortexSnapshotSummary,
+} from "./snapshot.js";
+export type {
+  QortexIngestOptions,
+  QortexIngestBackoffOptions,
+  QortexIngestProgress,
+  QortexIngestSummary,
+} from "./ingest.js";
+export {
+  QortexError,
+  QortexConnectionError,
+  QortexTimeoutError,
+  QortexAbortError,
+  QortexToolNotFoundError,
+  QortexIndexNotFoundError,
+  QortexDimensionMismatchError,
+  QortexValidationError,
+  QortexServerError,
+  QortexIngestError,
+  type QortexErrorDetails,
+} from "./errors.js";
 export type {
   ExploreResult,
   RulesResult,
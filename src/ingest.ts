@@ -0,0 +1,198 @@
+/**
+ * Batched, concurrent ingestion for QortexVectorStore.addDocuments.
+ *
+ * Documents are split into batches; each batch is embedded and upserted
+ * as a unit, with up to `concurrency` batches in flight. A failed batch is
+ * retried on its own after an exponential backoff, and batches that still
+ * fail are reported in the summary instead of aborting the rest of the
+ * corpus.
+ */
+
+import type { DocumentInterface } from "@langchain/core/documents";
+import type { QortexRequestOptions } from "./client.js";
+import {
+  QortexAbortError,
+  QortexDimensionMismatchError,
+  QortexIndexNotFoundError,
+  QortexToolNotFoundError,
+  QortexValidationError,
+} from "./errors.js";
+
+/**
+ * Options for batched ingestion. `timeoutMs` applies to each upsert;
+ * aborting `signal` stops the run with a QortexAbortError.
+ */
+export interface QortexIngestOptions extends QortexRequestOptions {
+  /** Ids for the documents, one per document (default: doc.id or a UUID). */
+  ids?: string[];
+  /** Documents per embedding + upsert batch (default: 100) */
+  batchSize?: number;
+  /** Batches processed in parallel (default: 1) */
+  concurrency?: number;
+  /** Extra attempts for a failed batch (default: 2) */
+  retries?: number;
+  /** Delays between attempts at a failed batch */
+  backoff?: QortexIngestBackoffOptions;
+  /** Called after every batch is embedded or stored. */
+  onProgress?: (progress: QortexIngestProgress) => void;
+}
+
+/** Exponential backoff settings for retrying a failed batch. */
+export interface QortexIngestBackoffOptions {
+  /** Delay before the first retry in ms (default: 500) */
+  initialDelayMs?: number;
+  /** Upper bound for a single delay in ms (default: 10000) */
+  maxDelayMs?: number;
+  /** Factor applied to the delay after each retry (default: 2) */
+  multiplier?: number;
+}
+
+const DEFAULT_BACKOFF: Required<QortexIngestBackoffOptions> = {
+  initialDelayMs: 500,
+  maxDelayMs: 10_000,
+  multiplier: 2,
+};
+
+/** Running totals, in documents. */
+export interface QortexIngestProgress {
+  total: number;
+  embedded: number;
+  stored: number;
+  failed: number;
+}
+
+/** Final outcome of an ingestion run. */
+export interface QortexIngestSummary extends QortexIngestProgress {
+  /** Ids of the stored documents, in input order. */
+  ids: string[];
+  /** Ids of documents whose batch failed after all retries. */
+  failedIds: string[];
+  /** The last error of each failed batch. */
+  errors: Error[];
+}
+
+export interface IngestHandlers {
+  embed(texts: string[]): Promise<number[][]>;
+  upsert(
+    vectors: number[][],
+    documents: DocumentInterface[],
+    ids: string[],
+  ): Promise<string[]>;
+}
+
+/** Errors that will fail the same way on every attempt. */
+function isRetryable(err: unknown): boolean {
+  return !(
+    err instanceof QortexAbortError ||
+    err instanceof QortexValidationError ||
+    err instanceof QortexDimensionMismatchError ||
+    err instanceof QortexIndexNotFoundError ||
+    err instanceof QortexToolNotFoundError
+  );
+}
+
+export async function ingestInBatches(
+  documents: DocumentInterface[],
+  ids: string[],
+  options: QortexIngestOptions,
+  handlers: IngestHandlers,
+): Promise<QortexIngestSummary> {
+  const batchSize = Math.max(1, options.batchSize ?? 100);
+  const concurrency = Math.max(1, options.concurrency ?? 1);
+  const retries = Math.max(0, options.retries ?? 2);
+  const { initialDelayMs, maxDelayMs, multiplier } = {
+    ...DEFAULT_BACKOFF,
+    ...options.backoff,
+  };
+
+  const progress: QortexIngestProgress = {
+    total: documents.length,
+    embedded: 0,
+    stored: 0,
+    failed: 0,
+  };
+  const report = () => options.onProgress?.({ ...progress });
+
+  const starts: number[] = [];
+  for (let i = 0; i < documents.length; i += batchSize) starts.push(i);
+
+  const storedIds: (string[] | null)[] = starts.map(() => null);
+  const failedIds: string[] = [];
+  const errors: Error[] = [];
+
+  const runBatch = async (batch: number) => {
+    const start = starts[batch];
+    const docs = documents.slice(start, start + batchSize);
+    const batchIds = ids.slice(start, start + batchSize);
+
+    // Vectors survive a failed upsert so retries do not re-embed
+    let vectors: number[][] | null = null;
+    for (let attempt = 0; ; attempt++) {
+      checkAborted(options.signal);
+      try {
+        if (!vectors) {
+          vectors = await handlers.embed(docs.map((doc) => doc.pageContent));
+          progress.embedded += docs.length;
+          report();
+        }
+        storedIds[batch] = await handlers.upsert(vectors, docs, batchIds);
+        progress.stored += docs.length;
+        report();
+        return;
+      } catch (err) {
+        if (options.signal?.aborted) throw err;
+        if (attempt < retries && isRetryable(err)) {
+          await sleep(
+            Math.min(initialDelayMs * multiplier ** attempt, maxDelayMs),
+            options.signal,
+          );
+          continue;
+        }
+        failedIds.push(...batchIds);
+        errors.push(err instanceof Error ? err : new Error(String(err)));
+        progress.failed += docs.length;
+        report();
+        return;
+      }
+    }
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < starts.length) {
+      await runBatch(next++);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, starts.length) }, worker),
+  );
+
+  return {
+    ...progress,
+    ids: storedIds.flatMap((batchIds) => batchIds ?? []),
+    failedIds,
+    errors,
+  };
+}
+
+function checkAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new QortexAbortError("Ingestion was aborted", { cause: signal.reason });
+  }
+}
+
+/** Wait `ms`, failing early with a QortexAbortError if `signal` aborts. */
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  checkAborted(signal);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new QortexAbortError("Ingestion was aborted", { cause: signal!.reason }));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,21 @@
+/**
+ * Reading the append-only JSONL files behind the feedback queue and the
+ * embedding file store.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+
+/** The records of a JSONL file, or none if the file does not exist. */
+export function readJsonLines<T>(path: string): T[] {
+  if (!existsSync(path)) return [];
+  const records: T[] = [];
+  for (const line of readFileSync(path, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as T);
+    } catch {
+      // A torn final line from an interrupted write; skip it.
+    }
+  }
+  return records;
+}
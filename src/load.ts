@@ -0,0 +1,39 @@
+/**
+ * Deserialization support for LangChain's `load()`.
+ *
+ * `load()` only instantiates classes it finds in its import map, keyed by
+ * the class's namespace. `qortexImportMap()` provides that entry for
+ * QortexVectorStore and, because most embeddings cannot be serialized,
+ * supplies the embeddings for stores saved without them.
+ *
+ * Usage:
+ *   import { load } from "@langchain/core/load";
+ *
+ *   const chain = await load(saved, {
+ *     importMap: qortexImportMap({ embeddings }),
+ *     secretsMap: {
+ *       QORTEX_AUTH_TOKEN: process.env.QORTEX_AUTH_TOKEN,
+ *       QORTEX_HEADER_X_TENANT: process.env.QORTEX_HEADER_X_TENANT,
+ *     },
+ *   });
+ */
+
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import {
+  QortexVectorStore,
+  type QortexVectorStoreFields,
+} from "./vectorstore.js";
+
+/** Import map entries for `load()` (its `importMap` option). */
+export function qortexImportMap(
+  options: { embeddings?: EmbeddingsInterface } = {},
+): Record<string, Record<string, unknown>> {
+  class LoadedQortexVectorStore extends QortexVectorStore {
+    constructor(fields: QortexVectorStoreFields) {
+      super({ ...fields, embeddings: fields.embeddings ?? options.embeddings! });
+    }
+  }
+
+  // "langchain/vectorstores/qortex" -> "vectorstores__qortex"
+  return { vectorstores__qortex: { QortexVectorStore: LoadedQortexVectorStore } };
+}
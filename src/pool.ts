@@ -0,0 +1,297 @@
+/**
+ * QortexMcpPool: several qortex MCP connections behind one client.
+ *
+ * A single stdio connection serializes every call through one Python
+ * process. The pool opens `size` independent members (spawned processes or
+ * remote sessions) and sends each call to the healthy member with the
+ * fewest calls in flight. Members are pinged periodically; one that fails
+ * is taken out of rotation until it answers again.
+ *
+ * It is a drop-in QortexMcpClient: `disconnect()` stops accepting calls,
+ * waits for in-flight ones to finish (up to `drainTimeoutMs`), then closes
+ * every member.
+ */
+
+import {
+  isIdempotentTool,
+  QortexMcpClient,
+  type QortexCallOptions,
+  type QortexCapabilities,
+  type QortexMcpClientConfig,
+  type QortexRequestOptions,
+} from "./client.js";
+import {
+  QortexConnectionError,
+  QortexTimeoutError,
+  QortexValidationError,
+} from "./errors.js";
+
+/** Pool settings. */
+export interface QortexPoolOptions {
+  /** Number of connections (default: 4). */
+  size?: number;
+  /** Interval between health pings in ms (default: 30000; 0 disables). */
+  healthCheckIntervalMs?: number;
+  /** Ping timeout in ms (default: 5000). */
+  healthCheckTimeoutMs?: number;
+  /** How long `disconnect()` waits for in-flight calls, in ms (default: 10000). */
+  drainTimeoutMs?: number;
+}
+
+/** Live state of one pool member. */
+export interface QortexPoolMemberStats {
+  connected: boolean;
+  healthy: boolean;
+  inFlight: number;
+}
+
+interface Member {
+  client: QortexMcpClient;
+  healthy: boolean;
+  inFlight: number;
+}
+
+const DEFAULT_POOL: Required<QortexPoolOptions> = {
+  size: 4,
+  healthCheckIntervalMs: 30_000,
+  healthCheckTimeoutMs: 5_000,
+  drainTimeoutMs: 10_000,
+};
+
+export class QortexMcpPool extends QortexMcpClient {
+  private options: Required<QortexPoolOptions>;
+  private members: Member[];
+  private draining = false;
+  private opened = false;
+  private opening: Promise<void> | null = null;
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+  /** Resolves waiters in `disconnect()` when the last call finishes. */
+  private idle: (() => void) | null = null;
+  private nextMember = 0;
+
+  constructor(config: QortexMcpClientConfig, pool: number | QortexPoolOptions) {
+    super(config);
+    if (config.mcpClient) {
+      throw new QortexValidationError("Connection pooling cannot be used with mcpClient");
+    }
+    this.options = {
+      ...DEFAULT_POOL,
+      ...(typeof pool === "number" ? { size: pool } : pool),
+    };
+    if (!(this.options.size >= 1)) {
+      throw new QortexValidationError("Pool size must be at least 1");
+    }
+
+    this.members = Array.from({ length: this.options.size }, () => {
+      const client = new QortexMcpClient(config);
+      // A member coming back (after a crash or a failed health check) is news
+      // for listeners such as the feedback queue.
+      client.on("connected", () => {
+        if (this.opened) this.emit("connected");
+      });
+      client.on("reconnecting", (info) => this.emit("reconnecting", info));
+      return { client, healthy: false, inFlight: 0 };
+    });
+  }
+
+  get connected(): boolean {
+    return this.members.some((m) => m.client.connected);
+  }
+
+  get capabilities(): QortexCapabilities | null {
+    return this.members.find((m) => m.client.capabilities)?.client.capabilities ?? null;
+  }
+
+  /** Per-member connection state and load. */
+  get stats(): QortexPoolMemberStats[] {
+    return this.members.map((m) => ({
+      connected: m.client.connected,
+      healthy: m.healthy,
+      inFlight: m.inFlight,
+    }));
+  }
+
+  supportsTool(name: string): boolean {
+    const tools = this.capabilities?.tools;
+    return !tools || tools.includes(name);
+  }
+
+  /**
+   * Open every member. Succeeds if at least one connects; the others are
+   * retried by the health check.
+   */
+  async connect(): Promise<void> {
+    if (this.opened) return;
+    if (!this.opening) {
+      this.opening = this.openMembers().finally(() => {
+        this.opening = null;
+      });
+    }
+    await this.opening;
+  }
+
+  async discover(): Promise<QortexCapabilities> {
+    await this.connect();
+    return this.pick().client.discover();
+  }
+
+  async ping(options: QortexRequestOptions = {}): Promise<void> {
+    await this.connect();
+    await this.pick().client.ping(options);
+  }
+
+  /**
+   * Stop accepting calls, wait for in-flight ones (up to `drainTimeoutMs`),
+   * then close every member.
+   */
+  async disconnect(): Promise<void> {
+    this.draining = true;
+    this.stopHealthChecks();
+
+    if (this.members.some((m) => m.inFlight > 0)) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, this.options.drainTimeoutMs);
+        this.idle = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.idle = null;
+    }
+
+    const wasOpen = this.opened;
+    this.opened = false;
+    await Promise.all(this.members.map((m) => m.client.disconnect()));
+    this.members.forEach((m) => (m.healthy = false));
+    this.draining = false;
+    if (wasOpen) {
+      this.emit("disconnected");
+    }
+  }
+
+  /**
+   * Call a tool on the least busy healthy member. An idempotent call that
+   * loses its connection is retried once on another member.
+   */
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    options: QortexCallOptions = {},
+  ): Promise<unknown> {
+    if (this.draining) {
+      throw new QortexConnectionError("Connection pool is shutting down", {
+        toolName: name,
+        args,
+      });
+    }
+    await this.connect();
+
+    const member = this.pick();
+    try {
+      return await this.callOn(member, name, args, options);
+    } catch (err) {
+      const lost =
+        err instanceof QortexConnectionError && !(err instanceof QortexTimeoutError);
+      if (!lost) throw err;
+      member.healthy = false;
+      if (!(options.idempotent ?? isIdempotentTool(name))) throw err;
+
+      const other = this.pick(member);
+      if (other === member) throw err;
+      return this.callOn(other, name, args, options);
+    }
+  }
+
+  /** Ping every member; reconnect and re-admit the ones that answer. */
+  async checkHealth(): Promise<QortexPoolMemberStats[]> {
+    await Promise.all(
+      this.members.map(async (m) => {
+        try {
+          await m.client.ping({ timeoutMs: this.options.healthCheckTimeoutMs });
+          m.healthy = !this.draining;
+        } catch {
+          m.healthy = false;
+        }
+      }),
+    );
+    return this.stats;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private async openMembers(): Promise<void> {
+    this.emit("connecting");
+    const results = await Promise.allSettled(
+      this.members.map((m) => m.client.connect()),
+    );
+    results.forEach((result, i) => {
+      this.members[i].healthy = result.status === "fulfilled";
+    });
+
+    const failed = results.find((r) => r.status === "rejected");
+    if (!this.members.some((m) => m.healthy)) {
+      await Promise.all(this.members.map((m) => m.client.disconnect()));
+      throw (failed as PromiseRejectedResult).reason;
+    }
+
+    this.opened = true;
+    this.startHealthChecks();
+    this.emit("connected");
+  }
+
+  private async callOn(
+    member: Member,
+    name: string,
+    args: Record<string, unknown>,
+    options: QortexCallOptions,
+  ): Promise<unknown> {
+    member.inFlight++;
+    try {
+      const result = await member.client.callTool(name, args, options);
+      member.healthy = true;
+      return result;
+    } finally {
+      member.inFlight--;
+      if (this.idle && this.members.every((m) => m.inFlight === 0)) {
+        this.idle();
+      }
+    }
+  }
+
+  /**
+   * The healthy member with the fewest calls in flight (round-robin among
+   * equals). Falls back to any member when none is healthy, so calls fail
+   * with the member's own connection error.
+   */
+  private pick(exclude?: Member): Member {
+    const candidates = this.members.filter((m) => m.healthy && m !== exclude);
+    if (candidates.length === 0) {
+      return exclude ?? this.members[this.nextMember++ % this.members.length];
+    }
+
+    const start = this.nextMember++;
+    let best = candidates[start % candidates.length];
+    for (let i = 1; i < candidates.length; i++) {
+      const m = candidates[(start + i) % candidates.length];
+      if (m.inFlight < best.inFlight) best = m;
+    }
+    return best;
+  }
+
+  private startHealthChecks(): void {
+    if (this.options.healthCheckIntervalMs <= 0 || this.healthTimer) return;
+    this.healthTimer = setInterval(() => {
+      void this.checkHealth();
+    }, this.options.healthCheckIntervalMs);
+    this.healthTimer.unref?.();
+  }
+
+  private stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * Retrievers over QortexVectorStore.
+ *
+ * QortexGraphRetriever: graph-aware retriever with neighborhood expansion.
+ *
+ * Runs the usual graph-enhanced search (qortex_query), then explores the
+ * graph around the top results and returns the neighboring concepts and
+ * their rules as extra Documents. Every document records how it was
+ * reached, so downstream prompts can tell direct hits from context.
+ *
+ * Usage:
+ *   const retriever = new QortexGraphRetriever({ vectorStore: store, k: 4, depth: 2 });
+ *   const docs = await retriever.invoke("token refresh");
+ *   // docs[i].metadata.qortex_kind     -> "result" | "concept" | "rule"
+ *   // docs[i].metadata.hops            -> 0 for search results, 1+ for neighbors
+ *   // docs[i].metadata.relation_type   -> edge that led to the concept
+ *
+ * QortexVectorStoreRetriever: what `store.asRetriever()` returns.
+ *
+ * Both apply RunnableConfig.signal (and `timeout`, which LangChain turns
+ * into a signal) to every qortex call the retrieval makes, so cancelling a
+ * chain cancels its pending server calls.
+ */
+
+import { BaseRetriever, type BaseRetrieverInput } from "@langchain/core/retrievers";
+import type { CallbackManagerForRetrieverRun } from "@langchain/core/callbacks/manager";
+import { Document, type DocumentInterface } from "@langchain/core/documents";
+import { ensureConfig, type RunnableConfig } from "@langchain/core/runnables";
+import { VectorStoreRetriever } from "@langchain/core/vectorstores";
+import type { QortexFilter } from "./filter.js";
+import { withRequestOptions } from "./scope.js";
+import type { QortexEdge, QortexNode, QortexRule } from "./types.js";
+import type { QortexVectorStore } from "./vectorstore.js";
+
+export interface QortexGraphRetrieverInput extends BaseRetrieverInput {
+  /** Store to search and explore. */
+  vectorStore: QortexVectorStore;
+  /** Search results to retrieve (default: 4). */
+  k?: number;
+  /** Graph hops to expand around each result (default: 1). */
+  depth?: number;
+  /** How many of the top results to expand (default: all `k`). */
+  expandTop?: number;
+  /** Add rules linked to the reached concepts (default: true). */
+  includeRules?: boolean;
+  /** Filter for the initial search. */
+  filter?: QortexFilter;
+}
+
+export class QortexGraphRetriever extends BaseRetriever {
+  static lc_name() {
+    return "QortexGraphRetriever";
+  }
+
+  lc_namespace = ["langchain", "retrievers", "qortex"];
+
+  vectorStore: QortexVectorStore;
+
+  k: number;
+
+  depth: number;
+
+  expandTop: number;
+
+  includeRules: boolean;
+
+  filter?: QortexFilter;
+
+  constructor(fields: QortexGraphRetrieverInput) {
+    super(fields);
+    this.vectorStore = fields.vectorStore;
+    this.k = fields.k ?? 4;
+    this.depth = fields.depth ?? 1;
+    this.expandTop = fields.expandTop ?? this.k;
+    this.includeRules = fields.includeRules ?? true;
+    this.filter = fields.filter;
+  }
+
+  async invoke(
+    input: string,
+    options?: RunnableConfig,
+  ): Promise<DocumentInterface[]> {
+    return withConfigSignal(options, (config) => super.invoke(input, config));
+  }
+
+  async _getRelevantDocuments(
+    query: string,
+    _runManager?: CallbackManagerForRetrieverRun,
+  ): Promise<DocumentInterface[]> {
+    const results = await this.vectorStore.similaritySearch(
+      query,
+      this.k,
+      this.filter,
+    );
+
+    const docs: DocumentInterface[] = results.map(
+      (doc) =>
+        new Document({
+          pageContent: doc.pageContent,
+          metadata: { ...doc.metadata, qortex_kind: "result", hops: 0 },
+          id: doc.id,
+        }),
+    );
+
+    const seenNodes = new Set(
+      results.map((doc) => doc.metadata.node_id as string).filter(Boolean),
+    );
+    const seenRules = new Set<string>(
+      results.flatMap((doc) =>
+        ((doc.metadata.rules as Array<{ id: string }>) ?? []).map((r) => r.id),
+      ),
+    );
+
+    const seeds = results
+      .slice(0, this.expandTop)
+      .map((doc) => doc.metadata.node_id as string | undefined)
+      .filter((id): id is string => Boolean(id));
+    const neighborhoods = await Promise.all(
+      seeds.map((nodeId) => this.vectorStore.explore(nodeId, this.depth)),
+    );
+
+    neighborhoods.forEach((neighborhood, i) => {
+      if (!neighborhood) return;
+      const seed = seeds[i];
+      const reached = walk(seed, neighborhood.edges, this.depth);
+
+      for (const node of neighborhood.neighbors) {
+        const path = reached.get(node.id);
+        if (!path || seenNodes.has(node.id)) continue;
+        seenNodes.add(node.id);
+        docs.push(conceptDocument(node, seed, path));
+      }
+
+      if (!this.includeRules) return;
+      for (const rule of neighborhood.rules) {
+        if (seenRules.has(rule.id)) continue;
+        seenRules.add(rule.id);
+        docs.push(ruleDocument(rule, seed, reached));
+      }
+    });
+
+    return docs;
+  }
+}
+
+export class QortexVectorStoreRetriever<
+  V extends QortexVectorStore = QortexVectorStore,
+> extends VectorStoreRetriever<V> {
+  async invoke(
+    input: string,
+    options?: RunnableConfig,
+  ): Promise<DocumentInterface[]> {
+    return withConfigSignal(options, (config) => super.invoke(input, config));
+  }
+}
+
+/** Run `fn` with the config's signal applied to qortex calls made inside it. */
+function withConfigSignal<T>(
+  options: RunnableConfig | undefined,
+  fn: (config: RunnableConfig) => Promise<T>,
+): Promise<T> {
+  const config = ensureConfig(options);
+  return withRequestOptions({ signal: config.signal }, () => fn(config));
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+interface Reach {
+  hops: number;
+  /** Edge type that led to the node. */
+  relationType: string;
+  /** Node the edge came from. */
+  via: string;
+}
+
+/** Breadth-first walk over the (undirected) edges from `seed`. */
+function walk(
+  seed: string,
+  edges: QortexEdge[],
+  depth: number,
+): Map<string, Reach> {
+  const reached = new Map<string, Reach>([
+    [seed, { hops: 0, relationType: "", via: seed }],
+  ]);
+  let frontier = [seed];
+
+  for (let hops = 1; hops <= depth && frontier.length > 0; hops++) {
+    const next: string[] = [];
+    for (const from of frontier) {
+      for (const edge of edges) {
+        const to =
+          edge.source_id === from
+            ? edge.target_id
+            : edge.target_id === from
+              ? edge.source_id
+              : null;
+        if (to === null || reached.has(to)) continue;
+        reached.set(to, { hops, relationType: edge.relation_type, via: from });
+        next.push(to);
+      }
+    }
+    frontier = next;
+  }
+
+  return reached;
+}
+
+function conceptDocument(node: QortexNode, seed: string, path: Reach): Document {
+  return new Document({
+    pageContent: node.description ? `${node.name}: ${node.description}` : node.name,
+    metadata: {
+      qortex_kind: "concept",
+      node_id: node.id,
+      domain: node.domain,
+      confidence: node.confidence,
+      hops: path.hops,
+      relation_type: path.relationType,
+      via_node_id: path.via,
+      seed_node_id: seed,
+    },
+    id: node.id,
+  });
+}
+
+function ruleDocument(
+  rule: QortexRule,
+  seed: string,
+  reached: Map<string, Reach>,
+): Document {
+  // A rule is as close as the nearest concept it was derived from.
+  const linked = (rule.source_concepts ?? [])
+    .map((id) => ({ id, path: reached.get(id) }))
+    .filter((c): c is { id: string; path: Reach } => c.path !== undefined)
+    .sort((a, b) => a.path.hops - b.path.hops)[0];
+
+  return new Document({
+    pageContent: rule.text,
+    metadata: {
+      qortex_kind: "rule",
+      rule_id: rule.id,
+      domain: rule.domain,
+      category: rule.category,
+      confidence: rule.confidence,
+      relevance: rule.relevance,
+      source_concepts: rule.source_concepts,
+      hops: linked?.path.hops ?? 0,
+      relation_type: linked?.path.relationType ?? "",
+      node_id: linked?.id ?? seed,
+      seed_node_id: seed,
+    },
+    id: rule.id,
+  });
+}
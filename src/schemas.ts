@@ -0,0 +1,382 @@
+/**
+ * Runtime schemas for qortex tool responses.
+ *
+ * These mirror the interfaces in types.ts and are checked at the MCP
+ * boundary so protocol drift between this package and the Python qortex
+ * server fails loudly instead of surfacing as `undefined` fields later.
+ *
+ * Each schema is built twice: a strict variant that rejects malformed
+ * payloads, and a lenient variant where every field falls back to an
+ * empty default and list items that still fail are dropped one by one.
+ */
+
+import { z } from "zod";
+import type {
+  ExploreResult,
+  FeedbackResult,
+  QortexDomainInfo,
+  QortexEdge,
+  QortexNode,
+  QortexQueryItem,
+  QortexQueryResult,
+  QortexRule,
+  RulesResult,
+} from "./types.js";
+
+/** How tool responses are checked: throw, log and fill defaults, or skip. */
+export type QortexValidationMode = "strict" | "lenient" | "off";
+
+/** A single vector match from qortex_vector_query. */
+export interface VectorQueryMatch {
+  id: string;
+  score: number;
+  metadata: Record<string, unknown>;
+  vector?: number[];
+}
+
+/** Result of qortex_vector_query. */
+export interface VectorQueryResult {
+  results: VectorQueryMatch[];
+}
+
+/** A stored vector returned by qortex_vector_get. */
+export interface VectorRecord {
+  id: string;
+  metadata: Record<string, unknown>;
+  vector?: number[];
+}
+
+/** Result of qortex_vector_get. Unknown ids are simply absent. */
+export interface VectorGetResult {
+  results: VectorRecord[];
+}
+
+/** Result of qortex_vector_upsert. */
+export interface VectorUpsertResult {
+  ids: string[];
+}
+
+/** Result of qortex_vector_delete. */
+export interface VectorDeleteResult {
+  /** Ids of the vectors that were removed. */
+  deleted: string[];
+}
+
+/** Result of qortex_graph_delete. */
+export interface GraphDeleteResult {
+  nodes_deleted: number;
+  edges_deleted: number;
+}
+
+/** Result of qortex_vector_scan: one page of an index, with vectors. */
+export interface VectorScanResult {
+  results: VectorRecord[];
+  /** Cursor for the next page, or null after the last one. */
+  next_cursor: string | null;
+}
+
+/** Result of qortex_graph_export: one page of a domain's graph. */
+export interface GraphExportResult {
+  nodes: QortexNode[];
+  edges: QortexEdge[];
+  rules: QortexRule[];
+  next_cursor: string | null;
+}
+
+/** Result of qortex_graph_import. */
+export interface GraphImportResult {
+  nodes_imported: number;
+  edges_imported: number;
+  rules_imported: number;
+}
+
+/** Result of qortex_vector_list_indexes. */
+export interface VectorListIndexesResult {
+  indexes: string[];
+}
+
+/** Result of qortex_vector_describe_index. */
+export interface VectorDescribeIndexResult {
+  index_name: string;
+  dimension: number;
+  metric: string;
+  /** Number of stored vectors. */
+  count: number;
+  /** Storage used by the index, or null when the backend cannot tell. */
+  size_bytes: number | null;
+}
+
+/** Result of qortex_domains. */
+export interface DomainsResult {
+  domains: QortexDomainInfo[];
+}
+
+/** Schema producing `T` from an untyped server payload. */
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+function buildSchemas(lenient: boolean) {
+  /** In lenient mode, a missing or malformed field becomes `fallback`. */
+  const field = <T extends z.ZodTypeAny>(schema: T, fallback: z.infer<T>) =>
+    lenient ? schema.catch(fallback) : schema;
+
+  const str = () => field(z.string(), "");
+  const num = () => field(z.number(), 0);
+  const record = () =>
+    field(z.record(z.unknown()), {} as Record<string, unknown>);
+  /**
+   * In lenient mode, items are parsed one by one and only the ones that
+   * fail are dropped; the strict pass has already reported them.
+   */
+  const list = <T extends z.ZodTypeAny>(item: T) =>
+    lenient
+      ? field(
+          z.array(z.unknown()).transform((items) =>
+            items.flatMap((entry): z.infer<T>[] => {
+              const parsed = item.safeParse(entry);
+              return parsed.success ? [parsed.data] : [];
+            }),
+          ),
+          [] as z.infer<T>[],
+        )
+      : z.array(item);
+
+  const node: Schema<QortexNode> = z
+    .object({
+      id: z.string(),
+      name: str(),
+      description: str(),
+      domain: str(),
+      confidence: num(),
+      properties: record(),
+    })
+    .passthrough();
+
+  const edge: Schema<QortexEdge> = z
+    .object({
+      source_id: z.string(),
+      target_id: z.string(),
+      relation_type: str(),
+      confidence: num(),
+      properties: record(),
+    })
+    .passthrough();
+
+  const rule: Schema<QortexRule> = z
+    .object({
+      id: z.string(),
+      text: str(),
+      domain: str(),
+      category: field(z.string().nullable(), null),
+      confidence: num(),
+      relevance: num(),
+      derivation: str(),
+      source_concepts: list(z.string()),
+      metadata: record(),
+    })
+    .passthrough();
+
+  const queryItem: Schema<QortexQueryItem> = z
+    .object({
+      id: z.string(),
+      content: str(),
+      score: num(),
+      domain: str(),
+      node_id: str(),
+      metadata: record(),
+    })
+    .passthrough();
+
+  const query: Schema<QortexQueryResult> = z
+    .object({
+      items: list(queryItem),
+      query_id: str(),
+      rules: list(rule),
+    })
+    .passthrough();
+
+  // A missing node is reported as `{ node: null }` with nothing else.
+  const explore: Schema<ExploreResult | { node: null }> = z.union([
+    z.object({ node: z.null() }).passthrough(),
+    z
+      .object({
+        node,
+        edges: list(edge),
+        rules: list(rule),
+        neighbors: list(node),
+      })
+      .passthrough(),
+  ]);
+
+  const rules: Schema<RulesResult> = z
+    .object({
+      rules: list(rule),
+      domain_count: num(),
+      projection: str(),
+    })
+    .passthrough();
+
+  const feedback: Schema<FeedbackResult> = z
+    .object({
+      status: str(),
+      query_id: str(),
+      outcome_count: num(),
+      source: str(),
+    })
+    .passthrough();
+
+  const vectorQuery: Schema<VectorQueryResult> = z
+    .object({
+      results: list(
+        z
+          .object({
+            id: z.string(),
+            score: num(),
+            metadata: record(),
+            vector: z.array(z.number()).optional(),
+          })
+          .passthrough(),
+      ),
+    })
+    .passthrough();
+
+  const vectorGet: Schema<VectorGetResult> = z
+    .object({
+      results: list(
+        z
+          .object({
+            id: z.string(),
+            metadata: record(),
+            vector: z.array(z.number()).optional(),
+          })
+          .passthrough(),
+      ),
+    })
+    .passthrough();
+
+  const cursor = () => field(z.string().nullable(), null);
+
+  const vectorScan: Schema<VectorScanResult> = z
+    .object({
+      results: list(
+        z
+          .object({
+            id: z.string(),
+            metadata: record(),
+            vector: z.array(z.number()).optional(),
+          })
+          .passthrough(),
+      ),
+      next_cursor: cursor(),
+    })
+    .passthrough();
+
+  const graphExport: Schema<GraphExportResult> = z
+    .object({
+      nodes: list(node),
+      edges: list(edge),
+      rules: list(rule),
+      next_cursor: cursor(),
+    })
+    .passthrough();
+
+  const graphImport: Schema<GraphImportResult> = z
+    .object({
+      nodes_imported: num(),
+      edges_imported: num(),
+      rules_imported: num(),
+    })
+    .passthrough();
+
+  const upsert: Schema<VectorUpsertResult> = z
+    .object({ ids: list(z.string()) })
+    .passthrough();
+
+  const vectorDelete: Schema<VectorDeleteResult> = z
+    .object({ deleted: list(z.string()) })
+    .passthrough();
+
+  const graphDelete: Schema<GraphDeleteResult> = z
+    .object({ nodes_deleted: num(), edges_deleted: num() })
+    .passthrough();
+
+  const listIndexes: Schema<VectorListIndexesResult> = z
+    .object({ indexes: list(z.string()) })
+    .passthrough();
+
+  const describeIndex: Schema<VectorDescribeIndexResult> = z
+    .object({
+      index_name: str(),
+      dimension: num(),
+      metric: str(),
+      count: num(),
+      size_bytes: field(z.number().nullable(), null),
+    })
+    .passthrough();
+
+  const domains: Schema<DomainsResult> = z
+    .object({
+      domains: list(
+        z
+          .object({
+            name: z.string(),
+            description: field(z.string().nullable(), null),
+            concept_count: num(),
+            edge_count: num(),
+            rule_count: num(),
+          })
+          .passthrough(),
+      ),
+    })
+    .passthrough();
+
+  return {
+    qortex_query: query,
+    qortex_explore: explore,
+    qortex_rules: rules,
+    qortex_feedback: feedback,
+    qortex_vector_query: vectorQuery,
+    qortex_vector_get: vectorGet,
+    qortex_vector_upsert: upsert,
+    qortex_vector_delete: vectorDelete,
+    qortex_graph_delete: graphDelete,
+    qortex_vector_scan: vectorScan,
+    qortex_graph_export: graphExport,
+    qortex_graph_import: graphImport,
+    qortex_vector_list_indexes: listIndexes,
+    qortex_vector_describe_index: describeIndex,
+    qortex_domains: domains,
+  } satisfies Record<string, z.ZodTypeAny>;
+}
+
+const STRICT_SCHEMAS: Record<string, z.ZodTypeAny> = buildSchemas(false);
+const LENIENT_SCHEMAS: Record<string, z.ZodTypeAny> = buildSchemas(true);
+
+/** Outcome of checking a tool response against its schema. */
+export type ResponseCheck =
+  | { ok: true; value: unknown }
+  | { ok: false; issues: string[]; value?: unknown };
+
+/**
+ * Check a parsed tool response. Tools without a schema pass through.
+ * In lenient mode a failed strict check still returns a value, with
+ * defaults filled in, alongside the issues that were found.
+ */
+export function checkResponse(
+  toolName: string,
+  value: unknown,
+  lenient: boolean,
+): ResponseCheck {
+  const schema = STRICT_SCHEMAS[toolName];
+  if (!schema) return { ok: true, value };
+
+  const strict = schema.safeParse(value);
+  if (strict.success) return { ok: true, value: strict.data };
+
+  const issues = strict.error.issues.map(
+    (issue) => `${issue.path.join(".") || "<root>"}: ${issue.message}`,
+  );
+  if (!lenient) return { ok: false, issues };
+
+  const filled = LENIENT_SCHEMAS[toolName].safeParse(value);
+  return { ok: false, issues, value: filled.success ? filled.data : undefined };
+}
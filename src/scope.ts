@@ -0,0 +1,72 @@
+/**
+ * Per-request scopes, carried through async calls by AsyncLocalStorage.
+ *
+ * Query scopes: a store remembers the query_id of its latest text-level
+ * search so that `feedback()` can be called without one. When a single
+ * store serves many concurrent requests, that shared slot attributes
+ * feedback to whichever query ran last. Running each request inside
+ * `withQueryScope` gives it its own slot.
+ *
+ * Request options: `withRequestOptions` sets a timeout and AbortSignal for
+ * every qortex call made inside it (see below).
+ *
+ * Usage:
+ *   app.post("/ask", (req, res) =>
+ *     withQueryScope(async () => {
+ *       const docs = await store.similaritySearch(req.body.question);
+ *       ...
+ *       await store.feedback({ [docs[0].id!]: "accepted" }); // this request's query
+ *     }),
+ *   );
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { QortexRequestOptions } from "./client.js";
+
+/** Latest query id per store, for one request. */
+type QueryScope = WeakMap<object, string>;
+
+const scopes = new AsyncLocalStorage<QueryScope>();
+
+/**
+ * Run `fn` in a fresh query scope. Searches made inside it (including in
+ * awaited calls and callbacks) record their query ids here instead of on
+ * the store, and `feedback()` inside it only sees those ids.
+ */
+export function withQueryScope<T>(fn: () => T): T {
+  return scopes.run(new WeakMap(), fn);
+}
+
+/** The active query scope, or undefined outside `withQueryScope`. */
+export function currentQueryScope(): QueryScope | undefined {
+  return scopes.getStore();
+}
+
+const requestOptions = new AsyncLocalStorage<QortexRequestOptions>();
+
+/**
+ * Run `fn` with a timeout and/or AbortSignal that every qortex call made
+ * inside it uses, unless the call passes its own. This reaches methods
+ * whose LangChain signatures have no room for options, such as
+ * `similaritySearch`:
+ *
+ *   await withRequestOptions({ signal: req.signal, timeoutMs: 2_000 }, () =>
+ *     store.similaritySearch(question),
+ *   );
+ */
+export function withRequestOptions<T>(options: QortexRequestOptions, fn: () => T): T {
+  return requestOptions.run({ ...currentRequestOptions(), ...definedOptions(options) }, fn);
+}
+
+/** Options from the innermost `withRequestOptions`, or {} outside one. */
+export function currentRequestOptions(): QortexRequestOptions {
+  return requestOptions.getStore() ?? {};
+}
+
+/** Drop unset fields so they do not hide an outer scope's values. */
+export function definedOptions(options: QortexRequestOptions): QortexRequestOptions {
+  const defined: QortexRequestOptions = {};
+  if (options.timeoutMs !== undefined) defined.timeoutMs = options.timeoutMs;
+  if (options.signal !== undefined) defined.signal = options.signal;
+  return defined;
+}
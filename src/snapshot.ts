@@ -0,0 +1,152 @@
+/**
+ * Snapshot format for QortexVectorStore.exportSnapshot / importSnapshot.
+ *
+ * A snapshot is JSONL: a header line followed by one line per vector,
+ * graph node, edge and rule. Every line carries a `type`, so files can be
+ * concatenated, filtered with standard tools and streamed without loading
+ * them whole.
+ *
+ *   {"type":"header","format":"qortex-snapshot","version":1,"index_name":"docs",...}
+ *   {"type":"vector","id":"d-1","vector":[0.1,...],"metadata":{"text":"..."}}
+ *   {"type":"node","id":"sec:oauth","name":"OAuth2",...}
+ *   {"type":"edge","source_id":"sec:oauth","target_id":"sec:jwt",...}
+ *   {"type":"rule","id":"rule:pkce","text":"Use PKCE",...}
+ */
+
+import type { QortexRequestOptions } from "./client.js";
+import { QortexValidationError } from "./errors.js";
+import type { VectorRecord } from "./schemas.js";
+import type { QortexEdge, QortexNode, QortexRule } from "./types.js";
+
+/** Snapshot format version written by this package. */
+export const SNAPSHOT_VERSION = 1;
+
+const SNAPSHOT_FORMAT = "qortex-snapshot";
+
+/** First line of a snapshot. */
+export interface QortexSnapshotHeader {
+  type: "header";
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  index_name: string;
+  /** Vector dimension, or null for a snapshot without vectors. */
+  dimension: number | null;
+  metric: string;
+  domains: string[];
+  created_at: string;
+}
+
+/** One line of a snapshot. */
+export type QortexSnapshotRecord =
+  | QortexSnapshotHeader
+  | ({ type: "vector"; vector: number[] } & Omit<VectorRecord, "vector">)
+  | ({ type: "node" } & QortexNode)
+  | ({ type: "edge" } & QortexEdge)
+  | ({ type: "rule" } & QortexRule);
+
+/** Options for QortexVectorStore.exportSnapshot. */
+export interface QortexExportSnapshotOptions extends QortexRequestOptions {
+  /** Vectors and graph items fetched per call (default: 500). */
+  batchSize?: number;
+  /** Include graph nodes, edges and rules (default: true). */
+  graph?: boolean;
+}
+
+/** Options for QortexVectorStore.importSnapshot. */
+export interface QortexImportSnapshotOptions extends QortexRequestOptions {
+  /** Vectors and graph items written per call (default: 500). */
+  batchSize?: number;
+  /** Create the index from the header before writing (default: true). */
+  createIndex?: boolean;
+}
+
+/** Counts of what an import restored. */
+export interface QortexSnapshotSummary {
+  vectors: number;
+  nodes: number;
+  edges: number;
+  rules: number;
+}
+
+export function snapshotHeader(
+  fields: Omit<QortexSnapshotHeader, "type" | "format" | "version" | "created_at">,
+): QortexSnapshotHeader {
+  return {
+    type: "header",
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    ...fields,
+    created_at: new Date().toISOString(),
+  };
+}
+
+/** Serialize one record as a JSONL line (with trailing newline). */
+export function snapshotLine(record: QortexSnapshotRecord): string {
+  return JSON.stringify(record) + "\n";
+}
+
+/**
+ * Parse a snapshot into records. Accepts the whole text, or JSONL split
+ * into arbitrary chunks (e.g. the lines from `exportSnapshot()`, or
+ * `fs.createReadStream(path)`). The first record must be a supported header.
+ */
+export async function* readSnapshot(
+  input: string | Iterable<string> | AsyncIterable<string | Uint8Array>,
+): AsyncGenerator<QortexSnapshotRecord> {
+  let lineNumber = 0;
+  let sawHeader = false;
+  for await (const line of splitLines(input)) {
+    lineNumber++;
+    if (!line.trim()) continue;
+
+    let record: QortexSnapshotRecord;
+    try {
+      record = JSON.parse(line) as QortexSnapshotRecord;
+    } catch {
+      throw new QortexValidationError(`Snapshot line ${lineNumber} is not valid JSON`);
+    }
+
+    if (!sawHeader) {
+      checkHeader(record);
+      sawHeader = true;
+    } else if (record.type === "header") {
+      throw new QortexValidationError(`Unexpected header on snapshot line ${lineNumber}`);
+    }
+    yield record;
+  }
+
+  if (!sawHeader) {
+    throw new QortexValidationError("Snapshot is empty");
+  }
+}
+
+function checkHeader(record: QortexSnapshotRecord): void {
+  if (record.type !== "header" || record.format !== SNAPSHOT_FORMAT) {
+    throw new QortexValidationError("Not a qortex snapshot: missing header line");
+  }
+  if (record.version > SNAPSHOT_VERSION) {
+    throw new QortexValidationError(
+      `Snapshot version ${record.version} is newer than supported version ${SNAPSHOT_VERSION}`,
+    );
+  }
+}
+
+async function* splitLines(
+  input: string | Iterable<string> | AsyncIterable<string | Uint8Array>,
+): AsyncGenerator<string> {
+  if (typeof input === "string") {
+    yield* input.split("\n");
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  let buffered = "";
+  for await (const chunk of input) {
+    buffered +=
+      typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+    const lines = buffered.split("\n");
+    buffered = lines.pop()!;
+    yield* lines;
+  }
+  if (buffered) yield buffered;
+}
@@ -0,0 +1,224 @@
+/**
+ * Optional OpenTelemetry instrumentation for qortex calls.
+ *
+ * Nothing is recorded unless a tracer and/or meter is passed in the
+ * `telemetry` config, so this package only needs @opentelemetry/api for
+ * its types:
+ *
+ *   import { metrics, trace } from "@opentelemetry/api";
+ *
+ *   const store = new QortexVectorStore(embeddings, {
+ *     telemetry: { tracer: trace.getTracer("my-app"), meter: metrics.getMeter("my-app") },
+ *   });
+ *
+ * Every tool call gets a client span ("tools/call qortex_query") with the
+ * tool, index, domain, top_k, result count and payload sizes; store
+ * methods get a parent span ("QortexVectorStore.similaritySearch", ...).
+ * The call span's context is sent to the server as W3C `traceparent` /
+ * `tracestate` in the request's MCP `_meta`, so server-side spans join the
+ * same trace.
+ *
+ * Metrics (histograms, tagged with `qortex.tool.name` and `error.type`):
+ *   qortex.client.call.duration   (ms)
+ *   qortex.client.request.size    (bytes of JSON arguments)
+ *   qortex.client.response.size   (bytes of the response text)
+ */
+
+import type {
+  Attributes,
+  Histogram,
+  Meter,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  Tracer,
+} from "@opentelemetry/api";
+
+/** Tracer and meter to report to; either may be omitted. */
+export interface QortexTelemetryOptions {
+  tracer?: Tracer;
+  meter?: Meter;
+}
+
+/** Per-call state shared between the telemetry wrapper and the client. */
+export interface QortexCallTrace {
+  /** MCP `_meta` carrying the trace context, when a span is recording. */
+  meta?: Record<string, string>;
+  /** Size of the response text, set by the client once it arrives. */
+  responseBytes?: number;
+}
+
+// Numeric values of the API enums; the API itself is a type-only import.
+const SPAN_KIND_CLIENT = 2 as SpanKind.CLIENT;
+const SPAN_KIND_INTERNAL = 0 as SpanKind.INTERNAL;
+const STATUS_ERROR = 2 as SpanStatusCode.ERROR;
+
+/** Payload fields holding the items a tool returned, in lookup order. */
+const RESULT_FIELDS = [
+  "items",
+  "results",
+  "documents",
+  "ids",
+  "deleted",
+  "indexes",
+  "neighbors",
+  "rules",
+];
+
+export class QortexTelemetry {
+  private tracer?: Tracer;
+  private duration?: Histogram;
+  private requestSize?: Histogram;
+  private responseSize?: Histogram;
+
+  constructor(options: QortexTelemetryOptions = {}) {
+    this.tracer = options.tracer;
+    if (options.meter) {
+      this.duration = options.meter.createHistogram("qortex.client.call.duration", {
+        description: "Duration of qortex MCP tool calls",
+        unit: "ms",
+      });
+      this.requestSize = options.meter.createHistogram("qortex.client.request.size", {
+        description: "Size of qortex tool call arguments",
+        unit: "By",
+      });
+      this.responseSize = options.meter.createHistogram("qortex.client.response.size", {
+        description: "Size of qortex tool call responses",
+        unit: "By",
+      });
+    }
+  }
+
+  /** Whether anything is being recorded. */
+  get enabled(): boolean {
+    return this.tracer !== undefined || this.duration !== undefined;
+  }
+
+  /**
+   * Run a tool call in a client span and record its metrics. `send`
+   * receives the `_meta` to attach and reports the response size back.
+   */
+  async call(
+    tool: string,
+    args: Record<string, unknown>,
+    send: (trace: QortexCallTrace) => Promise<unknown>,
+  ): Promise<unknown> {
+    if (!this.enabled) return send({});
+
+    const attributes: Attributes = { "qortex.tool.name": tool, ...argumentAttributes(args) };
+    const requestBytes = Buffer.byteLength(JSON.stringify(args));
+    const trace: QortexCallTrace = {};
+    const started = performance.now();
+
+    const record = (error?: unknown) => {
+      const metricAttributes: Attributes = { "qortex.tool.name": tool };
+      if (error !== undefined) metricAttributes["error.type"] = errorType(error);
+      this.duration?.record(performance.now() - started, metricAttributes);
+      this.requestSize?.record(requestBytes, metricAttributes);
+      if (trace.responseBytes !== undefined) {
+        this.responseSize?.record(trace.responseBytes, metricAttributes);
+      }
+    };
+
+    return this.run(`tools/call ${tool}`, SPAN_KIND_CLIENT, attributes, async (span) => {
+      if (span) {
+        trace.meta = traceMeta(span);
+        span.setAttribute("qortex.request.size", requestBytes);
+      }
+      try {
+        const result = await send(trace);
+        span?.setAttributes(resultAttributes(result, trace));
+        record();
+        return result;
+      } catch (err) {
+        if (trace.responseBytes !== undefined) {
+          span?.setAttribute("qortex.response.size", trace.responseBytes);
+        }
+        record(err);
+        throw err;
+      }
+    });
+  }
+
+  /** Run a store method in an internal span, counting what it returns. */
+  async span<T>(name: string, attributes: Attributes, fn: () => Promise<T>): Promise<T> {
+    if (!this.tracer) return fn();
+    return this.run(name, SPAN_KIND_INTERNAL, attributes, async (span) => {
+      const result = await fn();
+      const count = resultCount(result);
+      if (count !== undefined) span?.setAttribute("qortex.result.count", count);
+      return result;
+    });
+  }
+
+  /** Start an active span (so nested spans become children) and end it. */
+  private async run<T>(
+    name: string,
+    kind: SpanKind,
+    attributes: Attributes,
+    fn: (span?: Span) => Promise<T>,
+  ): Promise<T> {
+    if (!this.tracer) return fn();
+    return this.tracer.startActiveSpan(name, { kind, attributes }, async (span) => {
+      try {
+        return await fn(span);
+      } catch (err) {
+        span.setAttribute("error.type", errorType(err));
+        span.setStatus({ code: STATUS_ERROR, message: String((err as Error)?.message ?? err) });
+        if (err instanceof Error) span.recordException(err);
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+}
+
+/** Span attributes describing a tool call's arguments. */
+function argumentAttributes(args: Record<string, unknown>): Attributes {
+  const attributes: Attributes = {};
+  if (typeof args.index_name === "string") attributes["qortex.index.name"] = args.index_name;
+  if (typeof args.domain === "string") attributes["qortex.domain"] = args.domain;
+  if (isStringArray(args.domains)) attributes["qortex.domain"] = args.domains.join(",");
+  if (typeof args.top_k === "number") attributes["qortex.top_k"] = args.top_k;
+  return attributes;
+}
+
+function resultAttributes(result: unknown, trace: QortexCallTrace): Attributes {
+  const attributes: Attributes = {};
+  if (trace.responseBytes !== undefined) {
+    attributes["qortex.response.size"] = trace.responseBytes;
+  }
+  const count = resultCount(result);
+  if (count !== undefined) attributes["qortex.result.count"] = count;
+  return attributes;
+}
+
+/** Number of items in a result: an array, or the first list field of an object. */
+function resultCount(result: unknown): number | undefined {
+  if (Array.isArray(result)) return result.length;
+  if (!result || typeof result !== "object") return undefined;
+  const payload = result as Record<string, unknown>;
+  const field = RESULT_FIELDS.find((name) => Array.isArray(payload[name]));
+  return field ? (payload[field] as unknown[]).length : undefined;
+}
+
+/** W3C trace context for the span, in the shape of MCP `_meta`. */
+function traceMeta(span: Span): Record<string, string> | undefined {
+  const { traceId, spanId, traceFlags, traceState } = span.spanContext();
+  if (!/[^0]/.test(traceId)) return undefined; // non-recording no-op span
+  const meta: Record<string, string> = {
+    traceparent: `00-${traceId}-${spanId}-${traceFlags.toString(16).padStart(2, "0")}`,
+  };
+  const state = traceState?.serialize();
+  if (state) meta.tracestate = state;
+  return meta;
+}
+
+function errorType(err: unknown): string {
+  return err instanceof Error ? err.name : "Error";
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
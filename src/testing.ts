@@ -0,0 +1,621 @@
+/**
+ * FakeQortexServer: an in-process qortex MCP server for tests.
+ *
+ * Implements the qortex tools this package calls (qortex_vector_*,
+ * qortex_query, qortex_explore, qortex_rules, qortex_feedback,
+ * qortex_domains and qortex_graph_*) over the MCP SDK's in-memory transport, so
+ * integration tests run without uvx or Python. Vectors are searched by
+ * real cosine similarity, concepts/edges/rules form a small graph, and
+ * feedback nudges the scores of later text-level queries.
+ *
+ * It is a test double, not a reimplementation of qortex: text-level search
+ * embeds the query with the given embeddings and ranks stored vectors; no
+ * graph propagation takes place.
+ *
+ * Usage:
+ *   import { FakeQortexServer } from "@peleke.s/langchain-qortex/testing";
+ *
+ *   const server = new FakeQortexServer({ embeddings });
+ *   const store = new QortexVectorStore(embeddings, {
+ *     mcpClient: await server.connect(),
+ *   });
+ */
+
+import { randomUUID } from "node:crypto";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  type CallToolResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { matchesFilter, type QortexFilter } from "./filter.js";
+import type {
+  FeedbackOutcome,
+  QortexDomainInfo,
+  QortexEdge,
+  QortexNode,
+  QortexRule,
+} from "./types.js";
+
+/** A concept; omitted fields get neutral defaults. */
+export type FakeQortexConcept = Pick<QortexNode, "id" | "name"> &
+  Partial<QortexNode>;
+
+/** An edge; omitted fields get neutral defaults. */
+export type FakeQortexEdge = Pick<
+  QortexEdge,
+  "source_id" | "target_id" | "relation_type"
+> &
+  Partial<QortexEdge>;
+
+/** A rule; omitted fields get neutral defaults. */
+export type FakeQortexRule = Pick<QortexRule, "id" | "text"> &
+  Partial<QortexRule>;
+
+export interface FakeQortexServerOptions {
+  /** Embeds qortex_query contexts; required for text-level search. */
+  embeddings?: Pick<EmbeddingsInterface, "embedQuery">;
+  /** Initial graph. */
+  concepts?: FakeQortexConcept[];
+  edges?: FakeQortexEdge[];
+  rules?: FakeQortexRule[];
+  /** Reported server version (default: "0.0.0"). */
+  version?: string;
+  /** Score change per accepted result in later queries (default: 0.1). */
+  feedbackWeight?: number;
+}
+
+/** A qortex_feedback call as the server received it. */
+export interface FakeQortexFeedbackEvent {
+  queryId: string;
+  outcomes: Record<string, FeedbackOutcome>;
+  source: string;
+}
+
+interface StoredVector {
+  id: string;
+  vector: number[];
+  metadata: Record<string, unknown>;
+}
+
+interface FakeIndex {
+  dimension: number;
+  metric: string;
+  vectors: Map<string, StoredVector>;
+}
+
+type Args = Record<string, unknown>;
+
+const TOOLS = [
+  "qortex_query",
+  "qortex_explore",
+  "qortex_rules",
+  "qortex_feedback",
+  "qortex_vector_create_index",
+  "qortex_vector_delete_index",
+  "qortex_vector_list_indexes",
+  "qortex_vector_describe_index",
+  "qortex_vector_upsert",
+  "qortex_vector_query",
+  "qortex_vector_get",
+  "qortex_vector_delete",
+  "qortex_vector_scan",
+  "qortex_graph_delete",
+  "qortex_graph_export",
+  "qortex_graph_import",
+  "qortex_domains",
+];
+
+const OUTCOME_SIGN: Record<FeedbackOutcome, number> = {
+  accepted: 1,
+  partial: 0.5,
+  rejected: -1,
+};
+
+/** Thrown by tool handlers; reported to the client as an `isError` result. */
+class ToolFailure extends Error {}
+
+export class FakeQortexServer {
+  /** Every qortex_feedback call received, in order. */
+  readonly feedbackEvents: FakeQortexFeedbackEvent[] = [];
+
+  private embeddings?: Pick<EmbeddingsInterface, "embedQuery">;
+  private version: string;
+  private feedbackWeight: number;
+  private indexes = new Map<string, FakeIndex>();
+  private concepts = new Map<string, QortexNode>();
+  private edges: QortexEdge[] = [];
+  private rules = new Map<string, QortexRule>();
+  /** Item ids returned by each query, by query id. */
+  private queries = new Map<string, string[]>();
+  /** Accumulated feedback score adjustment per item id. */
+  private boosts = new Map<string, number>();
+  private clients: Client[] = [];
+
+  constructor(options: FakeQortexServerOptions = {}) {
+    this.embeddings = options.embeddings;
+    this.version = options.version ?? "0.0.0";
+    this.feedbackWeight = options.feedbackWeight ?? 0.1;
+    options.concepts?.forEach((concept) => this.addConcept(concept));
+    options.edges?.forEach((edge) => this.addEdge(edge));
+    options.rules?.forEach((rule) => this.addRule(rule));
+  }
+
+  /** Open a connected MCP client. Each call creates a new session. */
+  async connect(): Promise<Client> {
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await this.createServer().connect(serverTransport);
+
+    const client = new Client({ name: "fake-qortex-client", version: "0.0.0" });
+    await client.connect(clientTransport);
+    this.clients.push(client);
+    return client;
+  }
+
+  /** Close every client opened by `connect()`. */
+  async close(): Promise<void> {
+    const clients = this.clients;
+    this.clients = [];
+    await Promise.all(clients.map((client) => client.close()));
+  }
+
+  addConcept(concept: FakeQortexConcept): void {
+    this.concepts.set(concept.id, {
+      description: "",
+      domain: "default",
+      confidence: 1,
+      properties: {},
+      ...concept,
+    });
+  }
+
+  addEdge(edge: FakeQortexEdge): void {
+    this.edges.push({ confidence: 1, properties: {}, ...edge });
+  }
+
+  addRule(rule: FakeQortexRule): void {
+    this.rules.set(rule.id, {
+      domain: "default",
+      category: null,
+      confidence: 1,
+      relevance: 1,
+      derivation: "explicit",
+      source_concepts: [],
+      metadata: {},
+      ...rule,
+    });
+  }
+
+  /** Current feedback adjustment for an item's text-level score. */
+  boostOf(itemId: string): number {
+    return this.boosts.get(itemId) ?? 0;
+  }
+
+  // ---------------------------------------------------------------------------
+  // MCP wiring
+  // ---------------------------------------------------------------------------
+
+  private createServer(): Server {
+    const server = new Server(
+      { name: "qortex", version: this.version },
+      { capabilities: { tools: {} } },
+    );
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: TOOLS.map((name) => ({
+        name,
+        inputSchema: { type: "object" as const },
+      })),
+    }));
+
+    server.setRequestHandler(
+      CallToolRequestSchema,
+      async (request): Promise<CallToolResult> => {
+        const { name, arguments: args = {} } = request.params;
+        try {
+          const result = await this.handle(name, args);
+          return { content: [{ type: "text", text: JSON.stringify(result) }] };
+        } catch (err) {
+          if (!(err instanceof ToolFailure)) throw err;
+          return {
+            content: [{ type: "text", text: JSON.stringify({ error: err.message }) }],
+            isError: true,
+          };
+        }
+      },
+    );
+
+    return server;
+  }
+
+  private async handle(name: string, args: Args): Promise<unknown> {
+    switch (name) {
+      case "qortex_query":
+        return this.query(args);
+      case "qortex_explore":
+        return this.explore(args);
+      case "qortex_rules":
+        return this.listRules(args);
+      case "qortex_feedback":
+        return this.feedback(args);
+      case "qortex_vector_create_index":
+        return this.createIndex(args);
+      case "qortex_vector_delete_index":
+        this.index(args);
+        this.indexes.delete(args.index_name as string);
+        return { deleted: args.index_name };
+      case "qortex_vector_list_indexes":
+        return { indexes: [...this.indexes.keys()] };
+      case "qortex_vector_describe_index":
+        return this.describeIndex(args);
+      case "qortex_vector_upsert":
+        return this.upsert(args);
+      case "qortex_vector_query":
+        return this.vectorQuery(args);
+      case "qortex_vector_get":
+        return this.vectorGet(args);
+      case "qortex_vector_delete":
+        return this.vectorDelete(args);
+      case "qortex_vector_scan":
+        return this.vectorScan(args);
+      case "qortex_graph_delete":
+        return this.graphDelete(args);
+      case "qortex_graph_export":
+        return this.graphExport(args);
+      case "qortex_graph_import":
+        return this.graphImport(args);
+      case "qortex_domains":
+        return this.domains();
+      default:
+        throw new ToolFailure(`Unknown tool: ${name}`);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Vector tools
+  // ---------------------------------------------------------------------------
+
+  private index(args: Args): FakeIndex {
+    const name = args.index_name as string;
+    const index = this.indexes.get(name);
+    if (!index) throw new ToolFailure(`Index '${name}' not found`);
+    return index;
+  }
+
+  private createIndex(args: Args): unknown {
+    const name = args.index_name as string;
+    if (!this.indexes.has(name)) {
+      this.indexes.set(name, {
+        dimension: args.dimension as number,
+        metric: (args.metric as string) ?? "cosine",
+        vectors: new Map(),
+      });
+    }
+    return { index_name: name, dimension: this.indexes.get(name)!.dimension };
+  }
+
+  private describeIndex(args: Args): unknown {
+    const index = this.index(args);
+    return {
+      index_name: args.index_name,
+      dimension: index.dimension,
+      metric: index.metric,
+      count: index.vectors.size,
+      // As float32 vectors, ignoring metadata.
+      size_bytes: index.vectors.size * index.dimension * 4,
+    };
+  }
+
+  private upsert(args: Args): unknown {
+    const index = this.index(args);
+    const vectors = args.vectors as number[][];
+    const metadata = (args.metadata as Record<string, unknown>[]) ?? [];
+    const ids = (args.ids as string[] | undefined) ?? vectors.map(() => randomUUID());
+
+    for (const vector of vectors) {
+      if (vector.length !== index.dimension) {
+        throw new ToolFailure(
+          `Vector dimension ${vector.length} does not match index dimension ${index.dimension}`,
+        );
+      }
+    }
+    vectors.forEach((vector, i) => {
+      index.vectors.set(ids[i], { id: ids[i], vector, metadata: metadata[i] ?? {} });
+    });
+    return { ids };
+  }
+
+  private vectorQuery(args: Args): unknown {
+    const index = this.index(args);
+    const query = args.query_vector as number[];
+    if (query.length !== index.dimension) {
+      throw new ToolFailure(
+        `Query dimension ${query.length} does not match index dimension ${index.dimension}`,
+      );
+    }
+    const filter = args.filter as QortexFilter | undefined;
+
+    const results = [...index.vectors.values()]
+      .filter((record) => !filter || matchesFilter(filter, record.metadata))
+      .map((record) => ({ record, score: cosine(query, record.vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, (args.top_k as number) ?? 10);
+
+    return {
+      results: results.map(({ record, score }) => ({
+        id: record.id,
+        score,
+        metadata: record.metadata,
+        ...(args.include_vector ? { vector: record.vector } : {}),
+      })),
+    };
+  }
+
+  private vectorGet(args: Args): unknown {
+    const index = this.index(args);
+    return {
+      results: (args.ids as string[]).flatMap((id) => {
+        const record = index.vectors.get(id);
+        return record ? [{ id, metadata: record.metadata, vector: record.vector }] : [];
+      }),
+    };
+  }
+
+  private vectorDelete(args: Args): unknown {
+    const index = this.index(args);
+    const ids = args.ids as string[] | undefined;
+    const filter = args.filter as QortexFilter | undefined;
+
+    const deleted = [...index.vectors.values()]
+      .filter(
+        (record) =>
+          (!ids || ids.includes(record.id)) &&
+          (!filter || matchesFilter(filter, record.metadata)),
+      )
+      .map((record) => record.id);
+    deleted.forEach((id) => index.vectors.delete(id));
+    return { deleted };
+  }
+
+  private vectorScan(args: Args): unknown {
+    const { items, next_cursor } = page([...this.index(args).vectors.values()], args);
+    return {
+      results: items.map((record) => ({
+        id: record.id,
+        metadata: record.metadata,
+        ...(args.include_vector ? { vector: record.vector } : {}),
+      })),
+      next_cursor,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Graph tools
+  // ---------------------------------------------------------------------------
+
+  private async query(args: Args): Promise<unknown> {
+    if (!this.embeddings) {
+      throw new ToolFailure("qortex_query needs FakeQortexServer embeddings");
+    }
+    const query = await this.embeddings.embedQuery(args.context as string);
+    const domains = args.domains as string[] | undefined;
+    const minConfidence = (args.min_confidence as number) ?? 0;
+
+    const candidates = [...this.indexes.values()].flatMap((index) =>
+      index.dimension === query.length ? [...index.vectors.values()] : [],
+    );
+    const items = candidates
+      .filter((record) => {
+        // Vectors stored without a domain belong to every domain.
+        const domain = record.metadata.domain as string | undefined;
+        const confidence = (record.metadata.confidence as number) ?? 1;
+        return (!domain || !domains || domains.includes(domain)) && confidence >= minConfidence;
+      })
+      .map((record) => ({
+        record,
+        score: cosine(query, record.vector) + this.boostOf(record.id),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, (args.top_k as number) ?? 10)
+      .map(({ record, score }) => {
+        const { text, domain, node_id, ...metadata } = record.metadata;
+        return {
+          id: record.id,
+          content: (text as string) ?? "",
+          score,
+          domain: (domain as string) ?? domains?.[0] ?? "default",
+          node_id: (node_id as string) ?? record.id,
+          metadata,
+        };
+      });
+
+    const queryId = `q-${randomUUID()}`;
+    this.queries.set(queryId, items.map((item) => item.id));
+
+    const nodeIds = new Set(items.map((item) => item.node_id));
+    const rules = [...this.rules.values()].filter((rule) =>
+      rule.source_concepts.some((id) => nodeIds.has(id)),
+    );
+    return { items, query_id: queryId, rules };
+  }
+
+  private explore(args: Args): unknown {
+    const root = this.concepts.get(args.node_id as string);
+    if (!root) return { node: null };
+
+    const depth = (args.depth as number) ?? 1;
+    const reached = new Set([root.id]);
+    let frontier = [root.id];
+    for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const edge of this.edges) {
+        for (const [from, to] of [
+          [edge.source_id, edge.target_id],
+          [edge.target_id, edge.source_id],
+        ]) {
+          if (frontier.includes(from) && !reached.has(to) && this.concepts.has(to)) {
+            reached.add(to);
+            next.push(to);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    return {
+      node: root,
+      edges: this.edges.filter(
+        (edge) => reached.has(edge.source_id) && reached.has(edge.target_id),
+      ),
+      neighbors: [...reached]
+        .filter((id) => id !== root.id)
+        .map((id) => this.concepts.get(id)!),
+      rules: [...this.rules.values()].filter((rule) =>
+        rule.source_concepts.some((id) => reached.has(id)),
+      ),
+    };
+  }
+
+  private listRules(args: Args): unknown {
+    const domains = args.domains as string[] | undefined;
+    const conceptIds = args.concept_ids as string[] | undefined;
+    const categories = args.categories as string[] | undefined;
+    const minConfidence = (args.min_confidence as number) ?? 0;
+
+    const rules = [...this.rules.values()].filter(
+      (rule) =>
+        (!domains || domains.includes(rule.domain)) &&
+        (!conceptIds || rule.source_concepts.some((id) => conceptIds.includes(id))) &&
+        (!categories || (rule.category !== null && categories.includes(rule.category))) &&
+        (args.include_derived !== false || rule.derivation === "explicit") &&
+        rule.confidence >= minConfidence,
+    );
+    return {
+      rules,
+      domain_count: new Set(rules.map((rule) => rule.domain)).size,
+      projection: "rules",
+    };
+  }
+
+  private feedback(args: Args): unknown {
+    const queryId = args.query_id as string;
+    const returned = this.queries.get(queryId);
+    if (!returned) throw new ToolFailure(`Unknown query_id: ${queryId}`);
+
+    const outcomes = args.outcomes as Record<string, FeedbackOutcome>;
+    for (const [id, outcome] of Object.entries(outcomes)) {
+      if (!returned.includes(id)) continue;
+      this.boosts.set(id, this.boostOf(id) + OUTCOME_SIGN[outcome] * this.feedbackWeight);
+    }
+
+    const source = (args.source as string) ?? "unknown";
+    this.feedbackEvents.push({ queryId, outcomes, source });
+    return {
+      status: "recorded",
+      query_id: queryId,
+      outcome_count: Object.keys(outcomes).length,
+      source,
+    };
+  }
+
+  /** Domains of the graph's concepts and rules; edges count toward their source's. */
+  private domains(): unknown {
+    const domains = new Map<string, QortexDomainInfo>();
+    const info = (name: string) => {
+      if (!domains.has(name)) {
+        domains.set(name, { name, description: null, concept_count: 0, edge_count: 0, rule_count: 0 });
+      }
+      return domains.get(name)!;
+    };
+    for (const concept of this.concepts.values()) info(concept.domain).concept_count++;
+    for (const edge of this.edges) {
+      const source = this.concepts.get(edge.source_id);
+      if (source) info(source.domain).edge_count++;
+    }
+    for (const rule of this.rules.values()) info(rule.domain).rule_count++;
+    return { domains: [...domains.values()] };
+  }
+
+  /**
+   * Pages through a domain's nodes. Each edge is exported with its source
+   * node, each rule with the first of its source concepts in the export.
+   */
+  private graphExport(args: Args): unknown {
+    const domains = args.domains as string[] | undefined;
+    const all = [...this.concepts.values()].filter(
+      (node) => !domains || domains.includes(node.domain),
+    );
+    const exported = new Set(all.map((node) => node.id));
+    const { items: nodes, next_cursor } = page(all, args);
+    const ids = new Set(nodes.map((node) => node.id));
+
+    return {
+      nodes,
+      edges: this.edges.filter((edge) => ids.has(edge.source_id)),
+      rules: [...this.rules.values()].filter((rule) => {
+        const owner = rule.source_concepts.find((id) => exported.has(id));
+        return owner !== undefined && ids.has(owner);
+      }),
+      next_cursor,
+    };
+  }
+
+  private graphImport(args: Args): unknown {
+    const nodes = (args.nodes as QortexNode[]) ?? [];
+    const edges = (args.edges as QortexEdge[]) ?? [];
+    const rules = (args.rules as QortexRule[]) ?? [];
+    nodes.forEach((node) => this.addConcept(node));
+    edges.forEach((edge) => this.addEdge(edge));
+    rules.forEach((rule) => this.addRule(rule));
+    return {
+      nodes_imported: nodes.length,
+      edges_imported: edges.length,
+      rules_imported: rules.length,
+    };
+  }
+
+  private graphDelete(args: Args): unknown {
+    const sourceIds = new Set(args.source_ids as string[]);
+    const removed = [...this.concepts.values()]
+      .filter(
+        (concept) =>
+          sourceIds.has(concept.id) ||
+          sourceIds.has(concept.properties.source_id as string),
+      )
+      .map((concept) => concept.id);
+    removed.forEach((id) => this.concepts.delete(id));
+
+    const before = this.edges.length;
+    this.edges = this.edges.filter(
+      (edge) => !removed.includes(edge.source_id) && !removed.includes(edge.target_id),
+    );
+    return { nodes_deleted: removed.length, edges_deleted: before - this.edges.length };
+  }
+}
+
+/** Offset-based paging: `cursor` is the offset of the next item. */
+function page<T>(all: T[], args: Args): { items: T[]; next_cursor: string | null } {
+  const offset = Number(args.cursor ?? 0);
+  const limit = (args.limit as number) ?? 100;
+  const end = offset + limit;
+  return {
+    items: all.slice(offset, end),
+    next_cursor: end < all.length ? String(end) : null,
+  };
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -10,6 +10,8 @@
  * search (similaritySearchVectorWithScore) provides raw LangChain
  * compatibility via qortex_vector_query.
  *
+ * Server failures surface as QortexError subclasses (see errors.ts).
+ *
  * Usage:
  *   import { QortexVectorStore } from "@peleke.s/langchain-qortex";
  *
@@ -20,16 +22,91 @@
  *   const retriever = store.asRetriever({ k: 10 });
  */
 
-import { VectorStore } from "@langchain/core/vectorstores";
+import { randomUUID } from "node:crypto";
+import {
+  VectorStore,
+  type MaxMarginalRelevanceSearchOptions,
+  type VectorStoreRetriever,
+  type VectorStoreRetrieverInput,
+} from "@langchain/core/vectorstores";
+import type { Callbacks } from "@langchain/core/callbacks/manager";
+import type { Attributes } from "@opentelemetry/api";
 import { Document } from "@langchain/core/documents";
 import type { EmbeddingsInterface } from "@langchain/core/embeddings";
 import type { DocumentInterface } from "@langchain/core/documents";
-import { QortexMcpClient, type QortexMcpClientConfig } from "./client.js";
+import { cosineSimilarity } from "@langchain/core/utils/math";
+import {
+  QortexMcpClient,
+  type QortexCapabilities,
+  type QortexMcpClientConfig,
+  type QortexRequestOptions,
+} from "./client.js";
+import { QortexMcpPool, type QortexPoolOptions } from "./pool.js";
+import { QortexVectorStoreRetriever } from "./retriever.js";
+import { QortexTelemetry } from "./telemetry.js";
+import { QueryCache, type QortexCacheOptions } from "./cache.js";
+import {
+  QortexCachedEmbeddings,
+  type QortexEmbeddingCacheOptions,
+  type QortexEmbeddingCacheStats,
+} from "./embedding-cache.js";
+import {
+  QortexConnectionError,
+  QortexDimensionMismatchError,
+  QortexIngestError,
+  QortexToolNotFoundError,
+  QortexValidationError,
+} from "./errors.js";
+import {
+  FeedbackQueue,
+  type QortexFeedbackFlushResult,
+  type QortexFeedbackQueueOptions,
+} from "./feedback-queue.js";
+import {
+  compileGraphFilter,
+  compileVectorFilter,
+  type QortexFilter,
+} from "./filter.js";
+import {
+  ingestInBatches,
+  type QortexIngestOptions,
+  type QortexIngestSummary,
+} from "./ingest.js";
+import {
+  currentQueryScope,
+  currentRequestOptions,
+  definedOptions,
+} from "./scope.js";
+import {
+  readSnapshot,
+  snapshotHeader,
+  snapshotLine,
+  type QortexExportSnapshotOptions,
+  type QortexImportSnapshotOptions,
+  type QortexSnapshotSummary,
+} from "./snapshot.js";
+import type {
+  DomainsResult,
+  GraphExportResult,
+  GraphImportResult,
+  VectorDeleteResult,
+  VectorGetResult,
+  VectorListIndexesResult,
+  VectorQueryMatch,
+  VectorQueryResult,
+  VectorRecord,
+  VectorScanResult,
+  VectorDescribeIndexResult,
+  VectorUpsertResult,
+} from "./schemas.js";
 import type {
   ExploreResult,
   RulesResult,
   FeedbackOutcome,
   FeedbackResult,
+  QortexDomainInfo,
+  QortexEdge,
+  QortexNode,
   QortexQueryResult,
   QortexRule,
 } from "./types.js";
@@ -41,32 +118,258 @@ export interface QortexVectorStoreConfig extends QortexMcpClientConfig {
   domain?: string;
   /** Source identifier for feedback events (default: "langchain"). */
   feedbackSource?: string;
+  /**
+   * Over-fetch factor for filters with clauses the server cannot evaluate
+   * (default: 4). Those clauses are applied client-side to `k * factor`
+   * results.
+   */
+  filterOverfetch?: number;
+  /** Default MMR penalty for results sharing a graph node (default: 0). */
+  graphDiversity?: number;
+  /** Default batching for addDocuments (batch size, concurrency, retries). */
+  ingestion?: Omit<QortexIngestOptions, "ids">;
+  /**
+   * Queue feedback that cannot be delivered while the server is
+   * unreachable, and send it on the next connection (default: off).
+   * `true` keeps the queue in memory; pass `{ path }` to persist it.
+   */
+  feedbackQueue?: boolean | QortexFeedbackQueueOptions;
+  /**
+   * Spread calls over several server connections (default: one). A number
+   * sets the pool size. Cannot be combined with `mcpClient`.
+   */
+  pool?: number | QortexPoolOptions;
+  /**
+   * Timeout for every server call in ms (default: SDK default, 60s).
+   * Per-call `timeoutMs` and `withRequestOptions` override it.
+   */
+  timeoutMs?: number;
+  /**
+   * Cache results of read-only calls (default: off). `true` uses an
+   * in-memory LRU; pass `{ adapter }` for other storage. Writes through
+   * this store invalidate the entries they affect.
+   */
+  cache?: boolean | QortexCacheOptions;
+  /**
+   * Cache embeddings by model and text, so unchanged texts are not
+   * embedded again (default: off). `true` keeps them in memory; pass
+   * `{ path }` to keep them in a file, or `{ store }` for other storage.
+   */
+  embeddingCache?: boolean | QortexEmbeddingCacheOptions;
+  /** Distance metric for indexes this store creates (default: "cosine"). */
+  metric?: "cosine" | "euclidean" | "dotproduct";
+  /**
+   * Create the index on the first write if it does not exist, with the
+   * dimension of the first vectors and `metric` (default: false).
+   */
+  autoCreateIndex?: boolean;
+}
+
+/** Single-argument constructor form, as used by LangChain's `load()`. */
+export interface QortexVectorStoreFields extends QortexVectorStoreConfig {
+  embeddings: EmbeddingsInterface;
+}
+
+/** Config keys kept when the store is serialized; the rest are runtime-only. */
+const SERIALIZABLE_KEYS = [
+  "embeddings",
+  "indexName",
+  "domain",
+  "feedbackSource",
+  "serverCommand",
+  "serverArgs",
+  "serverEnv",
+  "serverUrl",
+  "transport",
+  "headers",
+  "authToken",
+  "reconnect",
+  "validation",
+  "filterOverfetch",
+  "graphDiversity",
+  "ingestion",
+  "feedbackQueue",
+  "pool",
+  "timeoutMs",
+  "metric",
+  "autoCreateIndex",
+  "cache",
+  "embeddingCache",
+];
+
+/** Result of QortexVectorStore.getByIds. */
+export interface QortexGetByIdsResult {
+  /** Found documents, in the order they were requested. */
+  documents: DocumentInterface[];
+  /** Requested ids that are not in the index. */
+  missing: string[];
+}
+
+/** Result of QortexVectorStore.describeIndex. */
+export interface QortexIndexStats {
+  name: string;
+  dimension: number;
+  metric: string;
+  /** Number of stored vectors. */
+  vectorCount: number;
+  /** Storage used by the index in bytes, or null when the server cannot tell. */
+  sizeBytes: number | null;
+  /**
+   * Graph counts for the store's domain. Only set for the store's own
+   * index, and only when the server exposes qortex_domains.
+   */
+  domain: QortexDomainInfo | null;
+}
+
+/** Result of QortexVectorStore.similaritySearchWithQueryId. */
+export interface QortexSearchResult {
+  /** Documents with their scores, best first. */
+  results: [DocumentInterface, number][];
+  /** Server id for this query; pass it to `feedback()`. */
+  queryId: string | null;
 }
 
 export class QortexVectorStore extends VectorStore {
-  declare FilterType: Record<string, unknown>;
+  declare FilterType: QortexFilter;
+
+  static lc_name() {
+    return "QortexVectorStore";
+  }
+
+  lc_serializable = true;
+
+  get lc_serializable_keys(): string[] {
+    return SERIALIZABLE_KEYS;
+  }
+
+  /**
+   * `serverEnv` values are saved as secrets named after the variable,
+   * `authToken` as QORTEX_AUTH_TOKEN and each header as
+   * QORTEX_HEADER_<NAME>; supply them via `load()`'s `secretsMap`.
+   */
+  get lc_secrets(): { [key: string]: string } {
+    const config = this.lc_kwargs as QortexVectorStoreConfig;
+    const secrets: { [key: string]: string } = { authToken: "QORTEX_AUTH_TOKEN" };
+    for (const name of Object.keys(config.serverEnv ?? {})) {
+      secrets[`serverEnv.${name}`] = name;
+    }
+    for (const name of Object.keys(config.headers ?? {})) {
+      secrets[`headers.${name}`] =
+        `QORTEX_HEADER_${name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+    }
+    return secrets;
+  }
 
   private mcp: QortexMcpClient;
   private indexName: string;
   private domain: string;
   private feedbackSource: string;
+  private graphDiversity: number;
+  private filterOverfetch: number;
+  private ingestOptions: Omit<QortexIngestOptions, "ids">;
   private _lastQueryId: string | null = null;
+  private offlineFeedback: FeedbackQueue | null = null;
+  private defaultTimeoutMs?: number;
+  private telemetry: QortexTelemetry;
+  private queryCache: QueryCache | null = null;
+  private metric: "cosine" | "euclidean" | "dotproduct";
+  private autoCreateIndex: boolean;
+  /** Dimension of this store's index, once created or written to. */
+  private indexDimension: number | null = null;
+  /** First-write check (and creation) of the index with autoCreateIndex. */
+  private indexReady: Promise<void> | null = null;
 
+  constructor(fields: QortexVectorStoreFields);
+  constructor(embeddings: EmbeddingsInterface, config?: QortexVectorStoreConfig);
   constructor(
-    embeddings: EmbeddingsInterface,
-    config: QortexVectorStoreConfig = {},
+    embeddingsOrFields: EmbeddingsInterface | QortexVectorStoreFields,
+    maybeConfig: QortexVectorStoreConfig = {},
   ) {
-    super(embeddings, config);
-    this.mcp = new QortexMcpClient(config);
+    const { embeddings, ...config }: QortexVectorStoreFields =
+      isStoreFields(embeddingsOrFields)
+        ? embeddingsOrFields
+        : { ...maybeConfig, embeddings: embeddingsOrFields };
+    if (!embeddings) {
+      throw new QortexValidationError(
+        "QortexVectorStore needs embeddings (when loading, pass them to qortexImportMap())",
+      );
+    }
+    super(embeddings, { ...config, embeddings });
+    if (!isSerializable(embeddings)) {
+      // Saved without embeddings; pass them to qortexImportMap() when loading.
+      delete this.lc_kwargs.embeddings;
+    }
+    // Cache adapters and embedding stores are runtime-only; their options are saved
+    if (typeof config.cache === "object") {
+      const { adapter: _adapter, ...cache } = config.cache;
+      this.lc_kwargs.cache = cache;
+    }
+    if (typeof config.embeddingCache === "object") {
+      const { store: _store, ...embeddingCache } = config.embeddingCache;
+      this.lc_kwargs.embeddingCache = embeddingCache;
+    }
+    this.mcp = config.pool
+      ? new QortexMcpPool(config, config.pool)
+      : new QortexMcpClient(config);
     this.indexName = config.indexName ?? "default";
     this.domain = config.domain ?? "default";
     this.feedbackSource = config.feedbackSource ?? "langchain";
+    this.graphDiversity = config.graphDiversity ?? 0;
+    this.filterOverfetch = config.filterOverfetch ?? 4;
+    this.ingestOptions = config.ingestion ?? {};
+    this.defaultTimeoutMs = config.timeoutMs;
+    this.metric = config.metric ?? "cosine";
+    this.autoCreateIndex = config.autoCreateIndex ?? false;
+    this.telemetry = new QortexTelemetry(config.telemetry);
+    if (config.cache) {
+      this.queryCache = new QueryCache(config.cache === true ? {} : config.cache, this.domain);
+    }
+    if (config.embeddingCache) {
+      const options = config.embeddingCache === true ? {} : config.embeddingCache;
+      this.embeddings = new QortexCachedEmbeddings({ ...options, embeddings });
+    }
+
+    if (config.feedbackQueue) {
+      const options = config.feedbackQueue === true ? {} : config.feedbackQueue;
+      this.offlineFeedback = new FeedbackQueue(options, async (queryId, outcomes) => {
+        await this.sendFeedback(queryId, outcomes);
+      });
+      this.mcp.on("connected", () => {
+        if (this.pendingFeedback > 0) {
+          // Failures stay queued for the next connection or flushFeedback().
+          this.flushFeedback().catch(() => {});
+        }
+      });
+    }
   }
 
   _vectorstoreType(): string {
     return "qortex";
   }
 
+  /**
+   * Same as VectorStore.asRetriever, but the retriever passes
+   * RunnableConfig.signal on to the qortex calls it makes.
+   */
+  asRetriever(
+    kOrFields?: number | Partial<VectorStoreRetrieverInput<this>>,
+    filter?: this["FilterType"],
+    callbacks?: Callbacks,
+    tags?: string[],
+    metadata?: Record<string, unknown>,
+    verbose?: boolean,
+  ): VectorStoreRetriever<this> {
+    const fields =
+      typeof kOrFields === "number"
+        ? { k: kOrFields, filter, callbacks, tags, metadata, verbose }
+        : (kOrFields ?? {});
+    return new QortexVectorStoreRetriever<this>({
+      ...fields,
+      vectorStore: this,
+      tags: [...(fields.tags ?? []), this._vectorstoreType()],
+    } as VectorStoreRetrieverInput<this>);
+  }
+
   /** Ensure the MCP connection is established. */
   async connect(): Promise<void> {
     await this.mcp.connect();
@@ -77,52 +380,115 @@ export class QortexVectorStore extends VectorStore {
     await this.mcp.disconnect();
   }
 
-  /** The query_id from the most recent text-level search. */
+  /** The underlying MCP client; subscribe here for connection lifecycle events. */
+  get client(): QortexMcpClient {
+    return this.mcp;
+  }
+
+  /**
+   * Tools and version of the connected qortex server, or null before
+   * `connect()`. Methods whose tool is missing fail fast with a
+   * QortexToolNotFoundError.
+   */
+  get capabilities(): QortexCapabilities | null {
+    return this.mcp.capabilities;
+  }
+
+  /**
+   * The query_id from the most recent text-level search. Inside
+   * `withQueryScope`, only searches made in that scope count.
+   */
   get lastQueryId(): string | null {
-    return this._lastQueryId;
+    const scope = currentQueryScope();
+    return scope ? (scope.get(this) ?? null) : this._lastQueryId;
   }
 
   // ---------------------------------------------------------------------------
   // Index management (MCP passthrough)
   // ---------------------------------------------------------------------------
 
-  /** Create a vector index. Must be called before addVectors/addDocuments. */
-  async createIndex(params: {
-    indexName?: string;
-    dimension: number;
-    metric?: "cosine" | "euclidean" | "dotproduct";
-  }): Promise<void> {
-    const result = (await this.mcp.callTool("qortex_vector_create_index", {
-      index_name: params.indexName ?? this.indexName,
-      dimension: params.dimension,
-      metric: params.metric ?? "cosine",
-    })) as Record<string, unknown>;
-
-    if (result.error) {
-      throw new Error(result.error as string);
+  /**
+   * Create a vector index. Must be called before addVectors/addDocuments,
+   * unless `autoCreateIndex` is set.
+   */
+  async createIndex(
+    params: {
+      indexName?: string;
+      dimension: number;
+      metric?: "cosine" | "euclidean" | "dotproduct";
+    } & QortexRequestOptions,
+  ): Promise<void> {
+    const result = (await this.call(
+      "qortex_vector_create_index",
+      {
+        index_name: params.indexName ?? this.indexName,
+        dimension: params.dimension,
+        metric: params.metric ?? this.metric,
+      },
+      params,
+    )) as { dimension?: unknown } | undefined;
+    if ((params.indexName ?? this.indexName) === this.indexName) {
+      // The server keeps an existing index as is, so the requested
+      // dimension need not be the index's
+      if (typeof result?.dimension === "number") {
+        this.indexDimension = result.dimension;
+      } else {
+        this.indexDimension = null;
+        await this.describeOwnIndex(params);
+      }
     }
   }
 
   /** Delete a vector index. */
-  async deleteIndex(params?: { indexName?: string }): Promise<void> {
-    const result = (await this.mcp.callTool("qortex_vector_delete_index", {
-      index_name: params?.indexName ?? this.indexName,
-    })) as Record<string, unknown>;
-
-    if (result.error) {
-      throw new Error(result.error as string);
+  async deleteIndex(
+    params: { indexName?: string } & QortexRequestOptions = {},
+  ): Promise<void> {
+    await this.call(
+      "qortex_vector_delete_index",
+      { index_name: params.indexName ?? this.indexName },
+      params,
+    );
+    if ((params.indexName ?? this.indexName) === this.indexName) {
+      this.indexDimension = null;
+      this.indexReady = null;
     }
   }
 
   /** List all vector indexes. */
-  async listIndexes(): Promise<string[]> {
-    const result = (await this.mcp.callTool(
+  async listIndexes(options: QortexRequestOptions = {}): Promise<string[]> {
+    const result = (await this.call(
       "qortex_vector_list_indexes",
       {},
-    )) as { indexes: string[] };
+      options,
+    )) as VectorListIndexesResult;
     return result.indexes;
   }
 
+  /**
+   * Dimension, metric, vector count and storage size of an index (default:
+   * this store's), plus the store's domain counts for its own index.
+   */
+  async describeIndex(
+    name: string = this.indexName,
+    options: QortexRequestOptions = {},
+  ): Promise<QortexIndexStats> {
+    const domains = name === this.indexName ? await this.listDomains(options) : null;
+    return this.indexStats(name, domains, options);
+  }
+
+  /** describeIndex for every index on the server. */
+  async getIndexStats(options: QortexRequestOptions = {}): Promise<QortexIndexStats[]> {
+    const [names, domains] = await Promise.all([
+      this.listIndexes(options),
+      this.listDomains(options),
+    ]);
+    return Promise.all(
+      names.map((name) =>
+        this.indexStats(name, name === this.indexName ? domains : null, options),
+      ),
+    );
+  }
+
   // ---------------------------------------------------------------------------
   // Abstract method implementations (required by VectorStore)
   // ---------------------------------------------------------------------------
@@ -130,35 +496,169 @@ export class QortexVectorStore extends VectorStore {
   async addVectors(
     vectors: number[][],
     documents: DocumentInterface[],
-    options?: { ids?: string[] },
+    options?: { ids?: string[] } & QortexRequestOptions,
   ): Promise<string[] | void> {
-    const metadata = documents.map((doc) => ({
-      text: doc.pageContent,
-      ...doc.metadata,
-    }));
-    const ids = options?.ids ?? documents.map((doc) => doc.id).filter(Boolean) as string[];
-
-    const result = (await this.mcp.callTool("qortex_vector_upsert", {
-      index_name: this.indexName,
-      vectors,
-      metadata,
-      ids: ids.length > 0 ? ids : undefined,
-    })) as { ids?: string[]; error?: string };
-
-    if (result.error) {
-      throw new Error(result.error);
-    }
+    return this.traced("addVectors", { "qortex.document.count": vectors.length }, async () => {
+      const metadata = documents.map((doc) => ({
+        text: doc.pageContent,
+        ...doc.metadata,
+      }));
+      const ids = resolveIds(documents, options?.ids);
+
+      const dimension = this.checkDimension(vectors);
+      if (dimension !== null && this.autoCreateIndex) {
+        await this.ensureIndex(dimension, options);
+        // An existing index may have another dimension
+        this.checkDimension(vectors);
+      }
+
+      const result = (await this.call(
+        "qortex_vector_upsert",
+        { index_name: this.indexName, vectors, metadata, ids },
+        options,
+      )) as VectorUpsertResult;
 
-    return result.ids;
+      this.indexDimension ??= dimension;
+      return result.ids;
+    });
   }
 
+  /**
+   * Embed and store documents in batches. Throws a QortexIngestError
+   * (carrying the full summary) if any batch still fails after retries;
+   * use `ingest()` to get the summary without throwing.
+   */
   async addDocuments(
     documents: DocumentInterface[],
-    options?: { ids?: string[] },
+    options?: QortexIngestOptions,
   ): Promise<string[] | void> {
-    const texts = documents.map((doc) => doc.pageContent);
-    const vectors = await this.embeddings.embedDocuments(texts);
-    return this.addVectors(vectors, documents, options);
+    const summary = await this.ingest(documents, options);
+    if (summary.failedIds.length > 0) {
+      throw new QortexIngestError(summary);
+    }
+    return summary.ids;
+  }
+
+  /**
+   * Embed and store documents in batches of `batchSize`, `concurrency`
+   * batches at a time, retrying failed batches. Reports progress through
+   * `onProgress` and returns a summary listing the ids that failed.
+   */
+  async ingest(
+    documents: DocumentInterface[],
+    options: QortexIngestOptions = {},
+  ): Promise<QortexIngestSummary> {
+    return this.traced("ingest", { "qortex.document.count": documents.length }, async () => {
+      const ids =
+        resolveIds(documents, options.ids) ?? documents.map(() => randomUUID());
+
+      return ingestInBatches(
+        documents,
+        ids,
+        { ...this.ingestOptions, ...options },
+        {
+          embed: (texts) => this.embeddings.embedDocuments(texts),
+          upsert: async (vectors, docs, batchIds) => {
+            const stored = await this.addVectors(vectors, docs, {
+              ids: batchIds,
+              timeoutMs: options.timeoutMs,
+              signal: options.signal,
+            });
+            return stored?.length ? stored : batchIds;
+          },
+        },
+      );
+    });
+  }
+
+  /**
+   * Delete documents by id or by metadata filter (see filter.ts).
+   *
+   * Removes the vectors from the index, then the graph nodes sourced from
+   * those documents together with their edges, so removed content stops
+   * appearing in text-level search. The graph step is skipped when the
+   * server does not expose qortex_graph_delete or `graph` is false.
+   */
+  async delete(
+    params: {
+      ids?: string[];
+      filter?: QortexFilter;
+      graph?: boolean;
+    } & QortexRequestOptions = {},
+  ): Promise<void> {
+    return this.traced("delete", {}, async () => {
+      const { ids, filter, graph = true } = params;
+      if (!ids && !filter) {
+        throw new QortexValidationError("delete() requires ids or filter", {
+          args: { ids, filter },
+        });
+      }
+      if (ids && ids.length === 0) return;
+
+      // Deletes cannot over-fetch and post-filter, so every clause must run server-side
+      const compiled = compileVectorFilter(filter);
+      if (compiled.client) {
+        throw new QortexValidationError(
+          "delete() filters support only equality, $in, range and $and clauses",
+          { args: { filter } },
+        );
+      }
+      // A filter with no clauses (`{}`, or only undefined values) would match everything
+      if (!ids && !compiled.server) {
+        throw new QortexValidationError("delete() filter has no clauses", {
+          args: { filter },
+        });
+      }
+
+      const result = (await this.call(
+        "qortex_vector_delete",
+        { index_name: this.indexName, ids, filter: compiled.server },
+        params,
+      )) as VectorDeleteResult;
+
+      const deleted = result.deleted ?? [];
+      if (
+        !graph ||
+        deleted.length === 0 ||
+        !this.mcp.supportsTool("qortex_graph_delete")
+      ) {
+        return;
+      }
+
+      await this.call(
+        "qortex_graph_delete",
+        { source_ids: deleted, domain: this.domain },
+        params,
+      );
+    });
+  }
+
+  /**
+   * Fetch stored documents by id, with their original pageContent and
+   * metadata. Documents come back in the order of `ids`; ids the index
+   * does not know are listed in `missing`.
+   */
+  async getByIds(
+    ids: string[],
+    options: QortexRequestOptions = {},
+  ): Promise<QortexGetByIdsResult> {
+    if (ids.length === 0) return { documents: [], missing: [] };
+
+    return this.traced("getByIds", { "qortex.document.count": ids.length }, async () => {
+      const result = (await this.call(
+        "qortex_vector_get",
+        { index_name: this.indexName, ids },
+        options,
+      )) as VectorGetResult;
+
+      const found = new Map(
+        (result.results ?? []).map((item) => [item.id, vectorMatchToDocument(item)]),
+      );
+      return {
+        documents: ids.flatMap((id) => found.get(id) ?? []),
+        missing: ids.filter((id) => !found.has(id)),
+      };
+    });
   }
 
   async similaritySearchVectorWithScore(
@@ -166,34 +666,44 @@ export class QortexVectorStore extends VectorStore {
     k: number,
     filter?: this["FilterType"],
   ): Promise<[DocumentInterface, number][]> {
-    const result = (await this.mcp.callTool("qortex_vector_query", {
-      index_name: this.indexName,
-      query_vector: query,
-      top_k: k,
-      filter: filter ?? undefined,
-      include_vector: false,
-    })) as {
-      results?: Array<{
-        id: string;
-        score: number;
-        metadata?: Record<string, unknown>;
-      }>;
-      error?: string;
-    };
+    return this.traced("similaritySearchVectorWithScore", { "qortex.top_k": k }, async () => {
+      const matches = await this.queryVectors(query, k, filter, false, {});
+      return matches.map(
+        (item) => [vectorMatchToDocument(item), item.score] as [DocumentInterface, number],
+      );
+    });
+  }
 
-    if (result.error) {
-      throw new Error(result.error);
-    }
+  /**
+   * Run qortex_vector_query, sending the server the filter clauses it can
+   * express. Remaining clauses are applied here, over-fetching by
+   * `filterOverfetch` so `k` matches usually survive.
+   */
+  private async queryVectors(
+    query: number[],
+    k: number,
+    filter: QortexFilter | undefined,
+    includeVector: boolean,
+    options: QortexRequestOptions,
+  ): Promise<VectorQueryMatch[]> {
+    const { server, client } = compileVectorFilter(filter);
 
-    return (result.results ?? []).map((item) => {
-      const { text, ...meta } = (item.metadata ?? {}) as Record<string, unknown>;
-      const doc = new Document({
-        pageContent: (text as string) ?? "",
-        metadata: { ...meta, score: item.score },
-        id: item.id,
-      });
-      return [doc, item.score] as [DocumentInterface, number];
-    });
+    const result = (await this.call(
+      "qortex_vector_query",
+      {
+        index_name: this.indexName,
+        query_vector: query,
+        top_k: client ? k * this.filterOverfetch : k,
+        filter: server,
+        include_vector: includeVector,
+      },
+      options,
+    )) as VectorQueryResult;
+
+    const matches = result.results ?? [];
+    return client
+      ? matches.filter((item) => client(item.metadata ?? {})).slice(0, k)
+      : matches;
   }
 
   // ---------------------------------------------------------------------------
@@ -214,49 +724,152 @@ export class QortexVectorStore extends VectorStore {
     k: number = 4,
     filter?: this["FilterType"],
   ): Promise<[DocumentInterface, number][]> {
-    const domains = filter?.domains
-      ? (filter.domains as string[])
-      : [this.domain];
-    const minConfidence =
-      typeof filter?.min_confidence === "number" ? filter.min_confidence : 0.0;
-
-    const result = (await this.mcp.callTool("qortex_query", {
-      context: query,
-      domains,
-      top_k: k,
-      min_confidence: minConfidence,
-      mode: "auto",
-    })) as QortexQueryResult;
-
-    this._lastQueryId = result.query_id ?? null;
-
-    return (result.items ?? []).map((item) => {
-      const meta: Record<string, unknown> = {
-        score: item.score,
-        domain: item.domain,
-        node_id: item.node_id,
-        ...item.metadata,
+    const { results } = await this.similaritySearchWithQueryId(query, k, filter);
+    return results;
+  }
+
+  /**
+   * Graph-enhanced search that also returns the server's query id, for
+   * feedback that must not depend on which query ran last. Each document
+   * carries the same id in `metadata.query_id`.
+   */
+  async similaritySearchWithQueryId(
+    query: string,
+    k: number = 4,
+    filter?: this["FilterType"],
+    options: QortexRequestOptions = {},
+  ): Promise<QortexSearchResult> {
+    return this.traced("similaritySearch", { "qortex.top_k": k }, async () => {
+      const { domains, minConfidence, client } = compileGraphFilter(filter);
+
+      const result = (await this.call(
+        "qortex_query",
+        {
+          context: query,
+          domains: domains ?? [this.domain],
+          top_k: client ? k * this.filterOverfetch : k,
+          min_confidence: minConfidence ?? 0.0,
+          mode: "auto",
+        },
+        options,
+      )) as QortexQueryResult;
+
+      const queryId = result.query_id || null;
+      this.recordQueryId(queryId);
+
+      const results = (result.items ?? []).map((item) => {
+        const meta: Record<string, unknown> = {
+          score: item.score,
+          domain: item.domain,
+          node_id: item.node_id,
+          ...item.metadata,
+        };
+        if (queryId) {
+          meta.query_id = queryId;
+        }
+
+        if (result.rules?.length) {
+          const linkedRules = result.rules
+            .filter((r: QortexRule) => r.source_concepts?.includes(item.node_id))
+            .map((r: QortexRule) => ({
+              id: r.id,
+              text: r.text,
+              relevance: r.relevance,
+            }));
+          if (linkedRules.length > 0) {
+            meta.rules = linkedRules;
+          }
+        }
+
+        const doc = new Document({
+          pageContent: item.content,
+          metadata: meta,
+          id: item.id,
+        });
+        return [doc, item.score] as [DocumentInterface, number];
+      });
+
+      return {
+        results: client
+          ? results.filter(([doc]) => client(doc.metadata)).slice(0, k)
+          : results,
+        queryId,
       };
+    });
+  }
+
+  /** Remember a query id in the active query scope, or on the store. */
+  private recordQueryId(queryId: string | null): void {
+    const scope = currentQueryScope();
+    if (!scope) {
+      this._lastQueryId = queryId;
+    } else if (queryId) {
+      scope.set(this, queryId);
+    } else {
+      scope.delete(this);
+    }
+  }
+
+  /**
+   * Maximal marginal relevance search over raw vectors.
+   *
+   * Fetches `fetchK` candidates with their vectors from qortex_vector_query
+   * and greedily picks `k` of them, trading query similarity against
+   * similarity to what is already picked (`lambda`: 1 = relevance only,
+   * 0 = diversity only). `graphDiversity` additionally subtracts a penalty
+   * from candidates whose `node_id` is already represented, so one concept
+   * cannot fill every slot.
+   */
+  async maxMarginalRelevanceSearch(
+    query: string,
+    options: MaxMarginalRelevanceSearchOptions<this["FilterType"]> & {
+      graphDiversity?: number;
+    } & QortexRequestOptions,
+  ): Promise<DocumentInterface[]> {
+    return this.traced("maxMarginalRelevanceSearch", { "qortex.top_k": options.k }, async () => {
+      const {
+        k,
+        fetchK = 20,
+        lambda = 0.5,
+        filter,
+        graphDiversity = this.graphDiversity,
+      } = options;
+      const queryVector = await this.embeddings.embedQuery(query);
+
+      const matches = await this.queryVectors(queryVector, fetchK, filter, true, options);
+      const candidates = matches.filter((item) => item.vector);
+      if (candidates.length === 0) return [];
+
+      const vectors = candidates.map((item) => item.vector!);
+      const relevance = cosineSimilarity([queryVector], vectors)[0];
+      const similarity = cosineSimilarity(vectors, vectors);
+      const nodeIds = candidates.map((item) => item.metadata?.node_id);
 
-      if (result.rules?.length) {
-        const linkedRules = result.rules
-          .filter((r: QortexRule) => r.source_concepts?.includes(item.node_id))
-          .map((r: QortexRule) => ({
-            id: r.id,
-            text: r.text,
-            relevance: r.relevance,
-          }));
-        if (linkedRules.length > 0) {
-          meta.rules = linkedRules;
+      const selected: number[] = [];
+      const remaining = new Set(candidates.keys());
+      while (selected.length < Math.min(k, candidates.length)) {
+        let best = -1;
+        let bestScore = -Infinity;
+        for (const i of remaining) {
+          const redundancy = selected.length
+            ? Math.max(...selected.map((j) => similarity[i][j]))
+            : 0;
+          const sharesNode =
+            nodeIds[i] !== undefined && selected.some((j) => nodeIds[j] === nodeIds[i]);
+          const score =
+            lambda * relevance[i] -
+            (1 - lambda) * redundancy -
+            (sharesNode ? graphDiversity : 0);
+          if (score > bestScore) {
+            best = i;
+            bestScore = score;
+          }
         }
+        selected.push(best);
+        remaining.delete(best);
       }
 
-      const doc = new Document({
-        pageContent: item.content,
-        metadata: meta,
-        id: item.id,
-      });
-      return [doc, item.score] as [DocumentInterface, number];
+      return selected.map((i) => vectorMatchToDocument(candidates[i]));
     });
   }
 
@@ -271,17 +884,21 @@ export class QortexVectorStore extends VectorStore {
   async explore(
     nodeId: string,
     depth: number = 1,
+    options: QortexRequestOptions = {},
   ): Promise<ExploreResult | null> {
-    const result = (await this.mcp.callTool("qortex_explore", {
-      node_id: nodeId,
-      depth,
-    })) as ExploreResult & { node: unknown };
+    return this.traced("explore", { "qortex.node.id": nodeId, "qortex.depth": depth }, async () => {
+      const result = (await this.call(
+        "qortex_explore",
+        { node_id: nodeId, depth },
+        options,
+      )) as ExploreResult & { node: unknown };
 
-    if (result.node === null) {
-      return null;
-    }
+      if (result.node === null) {
+        return null;
+      }
 
-    return result;
+      return result;
+    });
   }
 
   /** Get projected rules from the knowledge graph. */
@@ -292,37 +909,393 @@ export class QortexVectorStore extends VectorStore {
       categories?: string[];
       includeDerived?: boolean;
       minConfidence?: number;
-    } = {},
+    } & QortexRequestOptions = {},
   ): Promise<RulesResult> {
-    const result = (await this.mcp.callTool("qortex_rules", {
-      domains: options.domains ?? undefined,
-      concept_ids: options.conceptIds ?? undefined,
-      categories: options.categories ?? undefined,
-      include_derived: options.includeDerived ?? true,
-      min_confidence: options.minConfidence ?? 0.0,
-    })) as RulesResult;
+    return this.traced("getRules", {}, async () => {
+      const result = (await this.call(
+        "qortex_rules",
+        {
+          domains: options.domains ?? undefined,
+          concept_ids: options.conceptIds ?? undefined,
+          categories: options.categories ?? undefined,
+          include_derived: options.includeDerived ?? true,
+          min_confidence: options.minConfidence ?? 0.0,
+        },
+        options,
+      )) as RulesResult;
 
-    return result;
+      return result;
+    });
   }
 
   /**
    * Report feedback for retrieved items to improve future retrieval.
    * Accepted items get higher PPR teleportation probability; rejected lower.
+   *
+   * Applies to `options.queryId` when given (e.g. a document's
+   * `metadata.query_id`), otherwise to `lastQueryId`. Returns null when
+   * there is no query to attribute the feedback to, or when the server is
+   * unreachable and the feedback was queued (see `feedbackQueue`).
    */
   async feedback(
     outcomes: Record<string, FeedbackOutcome>,
+    options: { queryId?: string } & QortexRequestOptions = {},
   ): Promise<FeedbackResult | null> {
-    if (!this._lastQueryId) {
-      return null;
+    return this.traced("feedback", { "qortex.outcome.count": Object.keys(outcomes).length }, async () => {
+      const queryId = options.queryId ?? this.lastQueryId;
+      if (!queryId) {
+        return null;
+      }
+
+      try {
+        return await this.sendFeedback(queryId, outcomes, options);
+      } catch (err) {
+        if (!this.offlineFeedback || !(err instanceof QortexConnectionError)) {
+          throw err;
+        }
+        await this.offlineFeedback.add(queryId, outcomes);
+        return null;
+      }
+    });
+  }
+
+  /** Embedding cache hits and misses, or null without `embeddingCache`. */
+  get embeddingCacheStats(): QortexEmbeddingCacheStats | null {
+    return this.embeddings instanceof QortexCachedEmbeddings
+      ? this.embeddings.stats
+      : null;
+  }
+
+  /** Drop every cached query result (see `cache`). */
+  async clearCache(): Promise<void> {
+    await this.queryCache?.clear();
+  }
+
+  /** Feedback outcomes queued while the server was unreachable. */
+  get pendingFeedback(): number {
+    return this.offlineFeedback?.size ?? 0;
+  }
+
+  /**
+   * Send queued feedback now. Runs automatically on every (re)connection;
+   * outcomes stay queued if the server is still unreachable.
+   */
+  async flushFeedback(): Promise<QortexFeedbackFlushResult> {
+    if (!this.offlineFeedback) {
+      return { sent: 0, dropped: 0, pending: 0 };
+    }
+    return this.offlineFeedback.flush();
+  }
+
+  private async sendFeedback(
+    queryId: string,
+    outcomes: Record<string, FeedbackOutcome>,
+    options: QortexRequestOptions = {},
+  ): Promise<FeedbackResult> {
+    return (await this.call(
+      "qortex_feedback",
+      { query_id: queryId, outcomes, source: this.feedbackSource },
+      options,
+    )) as FeedbackResult;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Snapshots
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Stream the index and the store's graph domain as snapshot JSONL lines
+   * (format in snapshot.ts), paging through qortex_vector_scan and
+   * qortex_graph_export. The graph is skipped when the server does not
+   * expose qortex_graph_export or `graph` is false. The header's dimension
+   * and metric come from qortex_vector_describe_index when the server has
+   * it, else from the first vector and the store's `metric`.
+   *
+   *   await pipeline(Readable.from(store.exportSnapshot()), createWriteStream(path));
+   */
+  async *exportSnapshot(
+    options: QortexExportSnapshotOptions = {},
+  ): AsyncGenerator<string> {
+    const { batchSize = 500, graph = true } = options;
+    const described = await this.describeOwnIndex(options);
+
+    const pages = this.pages<VectorScanResult>(
+      "qortex_vector_scan",
+      batchSize,
+      { index_name: this.indexName, include_vector: true },
+      options,
+    );
+    const first = await pages.next();
+    const firstPage = first.done ? [] : first.value.results;
+
+    yield snapshotLine(
+      snapshotHeader({
+        index_name: this.indexName,
+        dimension: described?.dimension ?? firstPage[0]?.vector?.length ?? null,
+        metric: described?.metric ?? this.metric,
+        domains: [this.domain],
+      }),
+    );
+
+    let page = firstPage;
+    for (;;) {
+      for (const item of page) {
+        if (!item.vector) {
+          throw new QortexValidationError(
+            `qortex_vector_scan returned ${item.id} without its vector`,
+            { toolName: "qortex_vector_scan" },
+          );
+        }
+        yield snapshotLine({ type: "vector", id: item.id, vector: item.vector, metadata: item.metadata });
+      }
+      const next = await pages.next();
+      if (next.done) break;
+      page = next.value.results;
     }
 
-    const result = (await this.mcp.callTool("qortex_feedback", {
-      query_id: this._lastQueryId,
-      outcomes,
-      source: this.feedbackSource,
-    })) as FeedbackResult;
+    if (!graph || !this.mcp.supportsTool("qortex_graph_export")) return;
 
-    return result;
+    for await (const graphPage of this.pages<GraphExportResult>(
+      "qortex_graph_export",
+      batchSize,
+      { domains: [this.domain] },
+      options,
+    )) {
+      for (const node of graphPage.nodes) yield snapshotLine({ type: "node", ...node });
+      for (const edge of graphPage.edges) yield snapshotLine({ type: "edge", ...edge });
+      for (const rule of graphPage.rules) yield snapshotLine({ type: "rule", ...rule });
+    }
+  }
+
+  /**
+   * Restore a snapshot into this store's index: create the index from the
+   * header (unless `createIndex` is false), write the vectors with
+   * addVectors and the graph with qortex_graph_import. Stored embeddings
+   * are reused, so nothing is re-embedded.
+   *
+   *   await store.importSnapshot(createReadStream(path));
+   */
+  async importSnapshot(
+    input: string | Iterable<string> | AsyncIterable<string | Uint8Array>,
+    options: QortexImportSnapshotOptions = {},
+  ): Promise<QortexSnapshotSummary> {
+    const { batchSize = 500, createIndex = true, timeoutMs, signal } = options;
+    const summary: QortexSnapshotSummary = { vectors: 0, nodes: 0, edges: 0, rules: 0 };
+
+    let vectors: Required<VectorRecord>[] = [];
+    let nodes: QortexNode[] = [];
+    let edges: QortexEdge[] = [];
+    let rules: QortexRule[] = [];
+
+    const writeVectors = async () => {
+      if (vectors.length === 0) return;
+      await this.addVectors(
+        vectors.map((item) => item.vector),
+        vectors.map((item) => vectorMatchToDocument(item)),
+        { ids: vectors.map((item) => item.id), timeoutMs, signal },
+      );
+      summary.vectors += vectors.length;
+      vectors = [];
+    };
+    const writeGraph = async () => {
+      if (nodes.length + edges.length + rules.length === 0) return;
+      const result = (await this.call(
+        "qortex_graph_import",
+        { nodes, edges, rules },
+        options,
+      )) as GraphImportResult;
+      summary.nodes += result.nodes_imported;
+      summary.edges += result.edges_imported;
+      summary.rules += result.rules_imported;
+      nodes = [];
+      edges = [];
+      rules = [];
+    };
+
+    for await (const record of readSnapshot(input)) {
+      if (record.type === "header") {
+        if (createIndex && record.dimension !== null) {
+          await this.createIndex({
+            dimension: record.dimension,
+            metric: record.metric as "cosine" | "euclidean" | "dotproduct",
+            timeoutMs,
+            signal,
+          });
+        }
+        continue;
+      }
+
+      const { type, ...item } = record;
+      if (type === "vector") vectors.push(item as Required<VectorRecord>);
+      else if (type === "node") nodes.push(item as QortexNode);
+      else if (type === "edge") edges.push(item as QortexEdge);
+      else if (type === "rule") rules.push(item as QortexRule);
+
+      if (vectors.length >= batchSize) await writeVectors();
+      if (nodes.length + edges.length + rules.length >= batchSize) await writeGraph();
+    }
+
+    await writeVectors();
+    await writeGraph();
+    return summary;
+  }
+
+  /** Call a paginated tool until it returns no `next_cursor`. */
+  private async *pages<T extends { next_cursor: string | null }>(
+    tool: string,
+    limit: number,
+    args: Record<string, unknown>,
+    options: QortexRequestOptions,
+  ): AsyncGenerator<T> {
+    let cursor: string | null = null;
+    do {
+      const page = (await this.call(tool, { ...args, cursor, limit }, options)) as T;
+      yield page;
+      cursor = page.next_cursor;
+    } while (cursor);
+  }
+
+  /** Describe one index; `domains` supplies the store's domain counts. */
+  private async indexStats(
+    name: string,
+    domains: QortexDomainInfo[] | null,
+    options: QortexRequestOptions,
+  ): Promise<QortexIndexStats> {
+    const result = (await this.call(
+      "qortex_vector_describe_index",
+      { index_name: name },
+      options,
+    )) as VectorDescribeIndexResult;
+    if (name === this.indexName) {
+      this.indexDimension = result.dimension;
+    }
+    return {
+      name,
+      dimension: result.dimension,
+      metric: result.metric,
+      vectorCount: result.count,
+      sizeBytes: result.size_bytes,
+      domain: domains?.find((d) => d.name === this.domain) ?? null,
+    };
+  }
+
+  /**
+   * The store's index as the server describes it (recording its dimension
+   * for client-side checks), or null if the server has no
+   * qortex_vector_describe_index.
+   */
+  private async describeOwnIndex(
+    options: QortexRequestOptions,
+  ): Promise<VectorDescribeIndexResult | null> {
+    if (!this.mcp.supportsTool("qortex_vector_describe_index")) return null;
+    try {
+      const result = (await this.call(
+        "qortex_vector_describe_index",
+        { index_name: this.indexName },
+        options,
+      )) as VectorDescribeIndexResult;
+      if (typeof result.dimension === "number") this.indexDimension = result.dimension;
+      return result;
+    } catch (err) {
+      if (err instanceof QortexToolNotFoundError) return null;
+      throw err;
+    }
+  }
+
+  /** Domains known to the server, or null if it has no qortex_domains. */
+  private async listDomains(
+    options: QortexRequestOptions,
+  ): Promise<QortexDomainInfo[] | null> {
+    if (!this.mcp.supportsTool("qortex_domains")) return null;
+    try {
+      const result = (await this.call("qortex_domains", {}, options)) as DomainsResult;
+      return result.domains;
+    } catch (err) {
+      if (err instanceof QortexToolNotFoundError) return null;
+      throw err;
+    }
+  }
+
+  /**
+   * Dimension of `vectors` (null when empty). Throws before anything is
+   * sent if they differ from each other or from the index.
+   */
+  private checkDimension(vectors: number[][]): number | null {
+    if (vectors.length === 0) return null;
+    const expected = this.indexDimension ?? vectors[0].length;
+    const bad = vectors.find((vector) => vector.length !== expected);
+    if (bad) {
+      const message =
+        this.indexDimension !== null
+          ? `Vector dimension ${bad.length} does not match index '${this.indexName}' dimension ${expected}`
+          : `Vectors have mixed dimensions (${expected} and ${bad.length})`;
+      throw new QortexDimensionMismatchError(message, {
+        toolName: "qortex_vector_upsert",
+        args: { index_name: this.indexName },
+      });
+    }
+    return expected;
+  }
+
+  /**
+   * With autoCreateIndex: on the first write, create the index with the
+   * given dimension unless it already exists, in which case its own
+   * dimension is read. Concurrent writes share the check; a failed one is
+   * retried on the next write.
+   */
+  private async ensureIndex(
+    dimension: number,
+    options?: QortexRequestOptions,
+  ): Promise<void> {
+    if (!this.indexReady) {
+      this.indexReady = (async () => {
+        const indexes = await this.listIndexes(options);
+        if (!indexes.includes(this.indexName)) {
+          await this.createIndex({
+            dimension,
+            timeoutMs: options?.timeoutMs,
+            signal: options?.signal,
+          });
+        } else {
+          await this.describeOwnIndex(options ?? {});
+        }
+      })().catch((err) => {
+        this.indexReady = null;
+        throw err;
+      });
+    }
+    await this.indexReady;
+  }
+
+  /**
+   * Call a tool (through the query cache, when enabled) with the request's
+   * timeout and signal: explicit options first, then the enclosing
+   * `withRequestOptions`, then the store default.
+   */
+  private call(
+    tool: string,
+    args: Record<string, unknown>,
+    options: QortexRequestOptions = {},
+  ): Promise<unknown> {
+    const { timeoutMs = this.defaultTimeoutMs, signal } = {
+      ...currentRequestOptions(),
+      ...definedOptions(options),
+    };
+    const send = () => this.mcp.callTool(tool, args, { timeoutMs, signal });
+    return this.queryCache ? this.queryCache.fetch(tool, args, send) : send();
+  }
+
+  /** Run a method in a telemetry span tagged with the store's index and domain. */
+  private traced<T>(
+    method: string,
+    attributes: Attributes,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    return this.telemetry.span(
+      `QortexVectorStore.${method}`,
+      { "qortex.index.name": this.indexName, "qortex.domain": this.domain, ...attributes },
+      fn,
+    );
   }
 
   // ---------------------------------------------------------------------------
@@ -365,3 +1338,48 @@ export class QortexVectorStore extends VectorStore {
     return store;
   }
 }
+
+function isStoreFields(
+  value: EmbeddingsInterface | QortexVectorStoreFields,
+): value is QortexVectorStoreFields {
+  return "embeddings" in value && !("embedQuery" in value);
+}
+
+function isSerializable(value: unknown): boolean {
+  return (value as { lc_serializable?: boolean }).lc_serializable === true;
+}
+
+/**
+ * Resolve one id per document: explicit `ids` win, then `doc.id`. When only
+ * some documents carry an id, the rest get a random UUID so positions stay
+ * aligned. Returns undefined when no ids are known (the server assigns them).
+ */
+function resolveIds(
+  documents: DocumentInterface[],
+  ids: string[] | undefined,
+): string[] | undefined {
+  if (ids) {
+    if (ids.length !== documents.length) {
+      throw new QortexValidationError(
+        `Expected ${documents.length} ids, got ${ids.length}`,
+        { args: { ids } },
+      );
+    }
+    return ids;
+  }
+  if (!documents.some((doc) => doc.id)) return undefined;
+  return documents.map((doc) => doc.id || randomUUID());
+}
+
+/**
+ * Rebuild a Document from a stored vector, un-packing `text` into
+ * pageContent. Search matches also carry their score in the metadata.
+ */
+function vectorMatchToDocument(item: VectorRecord | VectorQueryMatch): Document {
+  const { text, ...meta } = (item.metadata ?? {}) as Record<string, unknown>;
+  return new Document({
+    pageContent: (text as string) ?? "",
+    metadata: "score" in item ? { ...meta, score: item.score } : meta,
+    id: item.id,
+  });
+}
@@ -0,0 +1,298 @@
+/**
+ * Unit tests for the query result cache.
+ *
+ * Runs the store against FakeQortexServer, spying on the MCP client to see
+ * which calls reach the server: hits, TTL expiry, invalidation after
+ * writes, opt-in text-level caching, custom adapters, and the default
+ * in-memory LRU.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from "vitest";
+import { Document } from "@langchain/core/documents";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { QortexVectorStore, type QortexVectorStoreConfig } from "../src/vectorstore.js";
+import { FakeQortexServer } from "../src/testing.js";
+import { QortexLruCache, type QortexCacheAdapter } from "../src/cache.js";
+import { embed, embeddings, VOCABULARY } from "./helpers.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const docs = [
+  new Document({ id: "d-oauth", pageContent: "oauth token", metadata: { node_id: "sec:oauth" } }),
+  new Document({ id: "d-jwt", pageContent: "jwt token", metadata: { node_id: "sec:jwt" } }),
+];
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("query cache", () => {
+  let server: FakeQortexServer;
+  let client: Client;
+  let callTool: MockInstance<Client["callTool"]>;
+  let store: QortexVectorStore;
+
+  function createStore(config: QortexVectorStoreConfig = {}) {
+    return new QortexVectorStore(embeddings, {
+      mcpClient: client,
+      indexName: "docs",
+      domain: "security",
+      cache: true,
+      ...config,
+    });
+  }
+
+  /** Calls of `tool` that reached the server since the last mockClear(). */
+  function callsTo(tool: string): number {
+    return callTool.mock.calls.filter(([params]) => params.name === tool).length;
+  }
+
+  beforeEach(async () => {
+    server = new FakeQortexServer({
+      embeddings,
+      concepts: [
+        { id: "sec:oauth", name: "OAuth2", domain: "security" },
+        { id: "sec:jwt", name: "JWT", domain: "security" },
+      ],
+      rules: [{ id: "rule:pkce", text: "Use PKCE", domain: "security", source_concepts: ["sec:oauth"] }],
+    });
+    client = await server.connect();
+    callTool = vi.spyOn(client, "callTool");
+    store = createStore();
+    await store.createIndex({ dimension: VOCABULARY.length });
+    await store.addDocuments(docs);
+    callTool.mockClear();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await server.close();
+  });
+
+  it("answers repeated queries from the cache", async () => {
+    const first = await store.similaritySearchVectorWithScore(embed("jwt"), 2);
+    const second = await store.similaritySearchVectorWithScore(embed("jwt"), 2);
+
+    expect(second).toEqual(first);
+    expect(callsTo("qortex_vector_query")).toBe(1);
+
+    await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+    expect(callsTo("qortex_vector_query")).toBe(2);
+  });
+
+  it("keys on normalized arguments", async () => {
+    await store.getRules({ domains: ["security"], minConfidence: 0.5 });
+    await store.getRules({ minConfidence: 0.5, domains: ["security"], conceptIds: undefined });
+
+    expect(callsTo("qortex_rules")).toBe(1);
+  });
+
+  it("does not cache other tools", async () => {
+    await store.listIndexes();
+    await store.listIndexes();
+
+    expect(callsTo("qortex_vector_list_indexes")).toBe(2);
+  });
+
+  it("does not cache text-level searches by default, so each gets its own query id", async () => {
+    const first = await store.similaritySearchWithQueryId("oauth", 1);
+    const second = await store.similaritySearchWithQueryId("oauth", 1);
+
+    expect(callsTo("qortex_query")).toBe(2);
+    expect(second.queryId).not.toBe(first.queryId);
+  });
+
+  it("caches text-level searches with textQueries, sharing their query id", async () => {
+    store = createStore({ cache: { textQueries: true } });
+
+    const first = await store.similaritySearchWithQueryId("oauth", 1);
+    const second = await store.similaritySearchWithQueryId("oauth", 1);
+    expect(callsTo("qortex_query")).toBe(1);
+    expect(second.queryId).toBe(first.queryId);
+
+    await store.feedback({ "d-oauth": "accepted" }, { queryId: first.queryId! });
+    await store.similaritySearchWithQueryId("oauth", 1);
+    expect(callsTo("qortex_query")).toBe(2);
+  });
+
+  it("expires entries after ttlMs", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    store = createStore({ cache: { ttlMs: 1_000 } });
+
+    await store.explore("sec:oauth");
+    vi.advanceTimersByTime(999);
+    await store.explore("sec:oauth");
+    expect(callsTo("qortex_explore")).toBe(1);
+
+    vi.advanceTimersByTime(1);
+    await store.explore("sec:oauth");
+    expect(callsTo("qortex_explore")).toBe(2);
+  });
+
+  it("invalidates the index and the store's domain after addVectors", async () => {
+    await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+    await store.getRules({ domains: ["security"] });
+    await store.getRules({ domains: ["infra"] });
+
+    await store.addVectors([embed("jwt")], [new Document({ pageContent: "jwt" })]);
+
+    const [[top]] = await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+    await store.getRules({ domains: ["security"] });
+    await store.getRules({ domains: ["infra"] });
+    expect(top.pageContent).toBe("jwt");
+    expect(callsTo("qortex_vector_query")).toBe(2);
+    expect(callsTo("qortex_rules")).toBe(3);
+  });
+
+  it("invalidates every graph query after feedback, but not vector queries", async () => {
+    const { queryId } = await store.similaritySearchWithQueryId("oauth", 1);
+    await store.getRules({ domains: ["infra"] });
+    await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+
+    await store.feedback({ "d-oauth": "accepted" }, { queryId: queryId! });
+
+    await store.getRules({ domains: ["infra"] });
+    await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+    expect(callsTo("qortex_rules")).toBe(2);
+    expect(callsTo("qortex_vector_query")).toBe(1);
+  });
+
+  it("invalidates only the index that changed", async () => {
+    const other = createStore({ indexName: "other" });
+    await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+
+    await other.createIndex({ dimension: 2 });
+    await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+    expect(callsTo("qortex_vector_query")).toBe(1);
+
+    await store.delete({ ids: ["d-jwt"] });
+    const results = await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+    expect(callsTo("qortex_vector_query")).toBe(2);
+    expect(results.map(([doc]) => doc.id)).toEqual(["d-oauth"]);
+  });
+
+  it("invalidates after a failed write", async () => {
+    await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+    callTool.mockRejectedValueOnce(new Error("socket hang up"));
+
+    await expect(
+      store.addVectors([embed("jwt")], [new Document({ pageContent: "jwt" })]),
+    ).rejects.toThrow();
+    await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+    expect(callsTo("qortex_vector_query")).toBe(2);
+  });
+
+  it("clears everything on clearCache()", async () => {
+    await store.explore("sec:oauth");
+    await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+
+    await store.clearCache();
+    await store.explore("sec:oauth");
+    await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+    expect(callTool).toHaveBeenCalledTimes(4);
+  });
+
+  it("stores entries through a custom adapter", async () => {
+    const entries = new Map<string, unknown>();
+    const adapter: QortexCacheAdapter = {
+      get: vi.fn(async (key: string) => entries.get(key)),
+      set: vi.fn(async (key: string, value: unknown) => void entries.set(key, value)),
+      delete: vi.fn(async (key: string) => void entries.delete(key)),
+    };
+    store = createStore({ cache: { adapter, ttlMs: 5_000 } });
+
+    await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+    await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+    expect(callsTo("qortex_vector_query")).toBe(1);
+    expect(adapter.set).toHaveBeenCalledWith(
+      expect.stringMatching(/^qortex:qortex_vector_query:[0-9a-f]{64}$/),
+      { results: [expect.objectContaining({ id: "d-jwt" })] },
+      5_000,
+    );
+
+    await store.delete({ ids: ["d-jwt"] });
+    expect(adapter.delete).toHaveBeenCalledTimes(1);
+    expect(entries.size).toBe(0);
+  });
+
+  /** A Map-backed adapter without eviction or expiry of its own. */
+  function mapAdapter() {
+    const entries = new Map<string, unknown>();
+    const adapter: QortexCacheAdapter = {
+      get: vi.fn(async (key: string) => entries.get(key)),
+      set: vi.fn(async (key: string, value: unknown) => void entries.set(key, value)),
+      delete: vi.fn(async (key: string) => void entries.delete(key)),
+    };
+    return { entries, adapter };
+  }
+
+  it("keeps at most maxEntries entries, deleting the least recently used", async () => {
+    const { entries, adapter } = mapAdapter();
+    store = createStore({ cache: { adapter, maxEntries: 2 } });
+
+    await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+    await store.similaritySearchVectorWithScore(embed("oauth"), 1);
+    await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+    await store.similaritySearchVectorWithScore(embed("token"), 1);
+    expect(callsTo("qortex_vector_query")).toBe(3);
+
+    // The entry read most recently outlived the older one
+    await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+    await store.similaritySearchVectorWithScore(embed("oauth"), 1);
+    expect(callsTo("qortex_vector_query")).toBe(4);
+
+    for (let k = 1; k <= 20; k++) {
+      await store.similaritySearchVectorWithScore(embed("token"), k);
+    }
+    expect(entries.size).toBe(2);
+  });
+
+  it("forgets expired entries", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { adapter } = mapAdapter();
+    store = createStore({ cache: { adapter, ttlMs: 1_000 } });
+
+    await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+    vi.advanceTimersByTime(1_000);
+    await store.similaritySearchVectorWithScore(embed("oauth"), 1);
+    await store.delete({ ids: ["d-jwt"] });
+
+    // Only the live entry was still tracked, so only it is invalidated
+    expect(adapter.delete).toHaveBeenCalledTimes(1);
+  });
+
+  it("is off by default", async () => {
+    store = createStore({ cache: undefined });
+    await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+    await store.similaritySearchVectorWithScore(embed("jwt"), 1);
+
+    expect(callsTo("qortex_vector_query")).toBe(2);
+  });
+});
+
+describe("QortexLruCache", () => {
+  it("evicts the least recently used entry", () => {
+    const cache = new QortexLruCache({ maxEntries: 2 });
+    cache.set("a", 1, 1_000);
+    cache.set("b", 2, 1_000);
+    cache.get("a");
+    cache.set("c", 3, 1_000);
+
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBe(1);
+    expect(cache.get("c")).toBe(3);
+    expect(cache.size).toBe(2);
+  });
+
+  it("returns copies, so callers cannot change cached values", () => {
+    const cache = new QortexLruCache();
+    const value = { items: [1] };
+    cache.set("a", value, 1_000);
+    value.items.push(2);
+    (cache.get("a") as { items: number[] }).items.push(3);
+
+    expect(cache.get("a")).toEqual({ items: [1] });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Unit tests for QortexFeedbackHandler.
+ *
+ * Uses a mock MCP client and small runnable chains to test that retrieved
+ * documents are attributed to their top-level run and reported through
+ * qortex_feedback, per query.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { RunnableLambda } from "@langchain/core/runnables";
+import { awaitAllCallbacks } from "@langchain/core/callbacks/promises";
+import type { DocumentInterface } from "@langchain/core/documents";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { QortexVectorStore } from "../src/vectorstore.js";
+import { QortexFeedbackHandler } from "../src/callbacks.js";
+import { createMockClient, mockResponse } from "./helpers.js";
+
+// ---------------------------------------------------------------------------
+// Mock helpers
+// ---------------------------------------------------------------------------
+
+function item(id: string) {
+  return { id, content: `content ${id}`, score: 0.9, domain: "security", node_id: `sec:${id}`, metadata: {} };
+}
+
+function feedbackCalls(callTool: ReturnType<typeof vi.fn>) {
+  return callTool.mock.calls
+    .map(([call]) => call)
+    .filter((call) => call.name === "qortex_feedback")
+    .map((call) => call.arguments);
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("QortexFeedbackHandler", () => {
+  let store: QortexVectorStore;
+  let callTool: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    let queries = 0;
+    const mock = createMockClient();
+    callTool = mock.callTool.mockImplementation(async ({ name, arguments: args }) => {
+      if (name === "qortex_query") {
+        queries++;
+        const items = args.context === "billing" ? [item("b-1")] : [item("i-1"), item("i-2")];
+        return mockResponse({ items, query_id: `q-${queries}`, rules: [] });
+      }
+      return mockResponse({
+        status: "recorded",
+        query_id: args.query_id,
+        outcome_count: Object.keys(args.outcomes).length,
+        source: args.source,
+      });
+    });
+    store = new QortexVectorStore({} as EmbeddingsInterface, {
+      mcpClient: mock.client,
+      domain: "security",
+    });
+  });
+
+  /** A chain that retrieves for each question and joins the results. */
+  function ragChain(questions: string[]) {
+    const retriever = store.asRetriever({ k: 2 });
+    return RunnableLambda.from(async (_input: string, config) => {
+      const docs: DocumentInterface[] = [];
+      for (const q of questions) {
+        docs.push(...(await retriever.invoke(q, config)));
+      }
+      return docs.map((d) => d.pageContent).join("\n");
+    });
+  }
+
+  it("reports the evaluator's outcome for every retrieved document", async () => {
+    const evaluate = vi.fn(() => "accepted" as const);
+    const handler = new QortexFeedbackHandler({ vectorStore: store, evaluate });
+
+    await ragChain(["auth"]).invoke("question", { callbacks: [handler] });
+
+    await awaitAllCallbacks();
+
+    expect(evaluate).toHaveBeenCalledWith(
+      expect.objectContaining({ inputs: { input: "question" } }),
+    );
+    expect(evaluate.mock.calls[0][0].documents.map((d: DocumentInterface) => d.id)).toEqual([
+      "i-1",
+      "i-2",
+    ]);
+    expect(feedbackCalls(callTool)).toEqual([
+      { query_id: "q-1", outcomes: { "i-1": "accepted", "i-2": "accepted" }, source: "langchain" },
+    ]);
+  });
+
+  it("sends one feedback call per query in the run", async () => {
+    const handler = new QortexFeedbackHandler({
+      vectorStore: store,
+      evaluate: () => ({ "i-1": "accepted", "b-1": "partial" }),
+    });
+
+    await ragChain(["auth", "billing"]).invoke("question", { callbacks: [handler] });
+
+    await awaitAllCallbacks();
+
+    expect(feedbackCalls(callTool)).toEqual([
+      { query_id: "q-1", outcomes: { "i-1": "accepted" }, source: "langchain" },
+      { query_id: "q-2", outcomes: { "b-1": "partial" }, source: "langchain" },
+    ]);
+  });
+
+  it("keeps runs for rating later when there is no evaluator", async () => {
+    const handler = new QortexFeedbackHandler({ vectorStore: store });
+    const runId = "7e1f5a7c-7f5d-4a5b-9d0f-3c1f1f0c2b11";
+
+    await ragChain(["auth"]).invoke("question", { callbacks: [handler], runId });
+
+    await awaitAllCallbacks();
+    expect(feedbackCalls(callTool)).toEqual([]);
+    expect(handler.documentsFor(runId)).toHaveLength(2);
+
+    const results = await handler.rate(runId, "rejected");
+    expect(results).toHaveLength(1);
+    expect(feedbackCalls(callTool)).toEqual([
+      { query_id: "q-1", outcomes: { "i-1": "rejected", "i-2": "rejected" }, source: "langchain" },
+    ]);
+
+    // A run is rated once.
+    expect(await handler.rate(runId, "accepted")).toEqual([]);
+  });
+
+  it("keeps the run when the evaluator has no verdict", async () => {
+    const handler = new QortexFeedbackHandler({ vectorStore: store, evaluate: () => undefined });
+    const runId = "0b6c2f4e-1a2b-4c3d-8e9f-112233445566";
+
+    await ragChain(["auth"]).invoke("question", { callbacks: [handler], runId });
+
+    await awaitAllCallbacks();
+
+    expect(feedbackCalls(callTool)).toEqual([]);
+    expect(handler.documentsFor(runId)).toHaveLength(2);
+  });
+
+  it("treats a retriever invoked on its own as the run", async () => {
+    const handler = new QortexFeedbackHandler({ vectorStore: store, evaluate: () => "partial" });
+
+    await store.asRetriever().invoke("auth", { callbacks: [handler] });
+
+    await awaitAllCallbacks();
+
+    expect(feedbackCalls(callTool)).toEqual([
+      { query_id: "q-1", outcomes: { "i-1": "partial", "i-2": "partial" }, source: "langchain" },
+    ]);
+  });
+
+  it("drops runs that fail", async () => {
+    const handler = new QortexFeedbackHandler({ vectorStore: store });
+    const runId = "5d0e9c8b-7a6f-4e5d-9c4b-a1b2c3d4e5f6";
+    const failing = ragChain(["auth"]).pipe(() => {
+      throw new Error("boom");
+    });
+
+    await expect(failing.invoke("question", { callbacks: [handler], runId })).rejects.toThrow("boom");
+    await awaitAllCallbacks();
+    expect(handler.documentsFor(runId)).toEqual([]);
+  });
+
+  it("forgets the oldest unrated runs beyond maxPendingRuns", async () => {
+    const handler = new QortexFeedbackHandler({ vectorStore: store, maxPendingRuns: 1 });
+    const first = "11111111-1111-4111-8111-111111111111";
+    const second = "22222222-2222-4222-8222-222222222222";
+
+    await ragChain(["auth"]).invoke("one", { callbacks: [handler], runId: first });
+    await ragChain(["auth"]).invoke("two", { callbacks: [handler], runId: second });
+    await awaitAllCallbacks();
+
+    expect(handler.documentsFor(first)).toEqual([]);
+    expect(handler.documentsFor(second)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,670 @@
+/**
+ * Unit tests for QortexMcpClient.
+ *
+ * Mocks the MCP SDK transports to test transport selection, remote
+ * headers, the streamable HTTP -> SSE fallback, crash recovery, timeouts
+ * and cancellation, and connection pooling.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+
+// ---------------------------------------------------------------------------
+// Mock helpers
+// ---------------------------------------------------------------------------
+
+const sdk = vi.hoisted(() => ({
+  /** Transport kinds whose connect() should fail. */
+  failing: new Set<string>(),
+  /** Tools the mocked server lists. */
+  tools: [] as string[],
+  serverVersion: "0.3.0",
+  /** While set, connect() waits for it, to hold a connect in progress. */
+  pending: null as Promise<void> | null,
+  transports: [] as Array<{ kind: string; url?: URL; options?: unknown; close: ReturnType<typeof vi.fn> }>,
+  clients: [] as Array<{
+    onclose?: () => void;
+    onerror?: (error: Error) => void;
+    callTool: ReturnType<typeof vi.fn>;
+    ping: ReturnType<typeof vi.fn>;
+  }>,
+}));
+
+vi.mock("@modelcontextprotocol/sdk/client/index.js", () => ({
+  Client: class {
+    onclose?: () => void;
+    onerror?: (error: Error) => void;
+    callTool = vi.fn(async () => ({ content: [{ type: "text", text: "{}" }] }));
+    ping = vi.fn(async () => ({}));
+    // Serves tools two per page to exercise pagination
+    listTools = vi.fn(async (params?: { cursor?: string }) => {
+      if (sdk.failing.has("tools/list")) throw new Error("tools/list unsupported");
+      const start = Number(params?.cursor ?? 0);
+      const next = start + 2;
+      return {
+        tools: sdk.tools.slice(start, next).map((name) => ({ name })),
+        nextCursor: next < sdk.tools.length ? String(next) : undefined,
+      };
+    });
+    getServerVersion() {
+      return { name: "qortex", version: sdk.serverVersion };
+    }
+    async connect(transport: { kind: string }) {
+      if (sdk.pending) await sdk.pending;
+      if (sdk.failing.has(transport.kind)) {
+        throw new Error(`${transport.kind} unsupported`);
+      }
+      sdk.clients.push(this);
+    }
+  },
+}));
+
+function mockTransport(kind: string) {
+  return class {
+    kind = kind;
+    close = vi.fn(async () => {});
+    constructor(public url?: unknown, public options?: unknown) {
+      sdk.transports.push(this as never);
+    }
+  };
+}
+
+vi.mock("@modelcontextprotocol/sdk/client/stdio.js", () => ({
+  StdioClientTransport: mockTransport("stdio"),
+}));
+vi.mock("@modelcontextprotocol/sdk/client/streamableHttp.js", () => ({
+  StreamableHTTPClientTransport: mockTransport("streamable-http"),
+}));
+vi.mock("@modelcontextprotocol/sdk/client/sse.js", () => ({
+  SSEClientTransport: mockTransport("sse"),
+}));
+
+const { QortexMcpClient } = await import("../src/client.js");
+const { QortexMcpPool } = await import("../src/pool.js");
+const {
+  QortexAbortError,
+  QortexConnectionError,
+  QortexTimeoutError,
+  QortexToolNotFoundError,
+  QortexValidationError,
+} = await import("../src/errors.js");
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("QortexMcpClient", () => {
+  beforeEach(() => {
+    sdk.failing.clear();
+    sdk.pending = null;
+    sdk.transports.length = 0;
+    sdk.clients.length = 0;
+    sdk.tools = [
+      "qortex_query",
+      "qortex_explore",
+      "qortex_rules",
+      "qortex_feedback",
+      "qortex_vector_query",
+      "qortex_vector_upsert",
+    ];
+    sdk.serverVersion = "0.3.0";
+  });
+
+  it("spawns a stdio subprocess by default", async () => {
+    const client = new QortexMcpClient();
+    await client.connect();
+
+    expect(client.connected).toBe(true);
+    expect(sdk.transports.map((t) => t.kind)).toEqual(["stdio"]);
+  });
+
+  describe("remote transports", () => {
+    it("connects over streamable HTTP when serverUrl is set", async () => {
+      const client = new QortexMcpClient({
+        serverUrl: "https://qortex.internal/mcp",
+      });
+      await client.connect();
+
+      expect(client.connected).toBe(true);
+      expect(sdk.transports).toHaveLength(1);
+      expect(sdk.transports[0].kind).toBe("streamable-http");
+      expect(String(sdk.transports[0].url)).toBe("https://qortex.internal/mcp");
+    });
+
+    it("sends headers and bearer token", async () => {
+      const client = new QortexMcpClient({
+        serverUrl: "https://qortex.internal/mcp",
+        headers: { "X-Team": "search" },
+        authToken: "secret",
+      });
+      await client.connect();
+
+      expect(sdk.transports[0].options).toEqual({
+        requestInit: {
+          headers: { "X-Team": "search", Authorization: "Bearer secret" },
+        },
+      });
+    });
+
+    it("falls back to SSE when streamable HTTP fails", async () => {
+      sdk.failing.add("streamable-http");
+
+      const client = new QortexMcpClient({
+        serverUrl: "https://qortex.internal/sse",
+        authToken: "secret",
+      });
+      await client.connect();
+
+      expect(client.connected).toBe(true);
+      expect(sdk.transports.map((t) => t.kind)).toEqual(["streamable-http", "sse"]);
+      expect(sdk.transports[0].close).toHaveBeenCalled();
+      expect(sdk.transports[1].options).toEqual({
+        requestInit: { headers: { Authorization: "Bearer secret" } },
+      });
+    });
+
+    it("does not fall back when streamable-http is forced", async () => {
+      sdk.failing.add("streamable-http");
+
+      const client = new QortexMcpClient({
+        serverUrl: "https://qortex.internal/mcp",
+        transport: "streamable-http",
+      });
+
+      await expect(client.connect()).rejects.toThrow(QortexConnectionError);
+      await expect(client.connect()).rejects.toThrow("streamable-http unsupported");
+      expect(client.connected).toBe(false);
+      expect(sdk.transports.map((t) => t.kind)).toEqual([
+        "streamable-http",
+        "streamable-http",
+      ]);
+    });
+
+    it("uses SSE directly when requested", async () => {
+      const client = new QortexMcpClient({
+        serverUrl: "https://qortex.internal/sse",
+        transport: "sse",
+      });
+      await client.connect();
+
+      expect(sdk.transports.map((t) => t.kind)).toEqual(["sse"]);
+    });
+
+    it("closes the remote transport on disconnect", async () => {
+      const client = new QortexMcpClient({
+        serverUrl: "https://qortex.internal/mcp",
+      });
+      await client.connect();
+      await client.disconnect();
+
+      expect(client.connected).toBe(false);
+      expect(sdk.transports[0].close).toHaveBeenCalled();
+    });
+  });
+
+  describe("crash recovery", () => {
+    const reconnect = { initialDelayMs: 1, maxDelayMs: 4, maxRetries: 3 };
+    // The mocked server answers "{}", which is not a valid tool response
+    const validation = "off" as const;
+
+    function crash(index: number, error?: Error) {
+      const client = sdk.clients[index];
+      if (error) client.onerror?.(error);
+      client.onclose?.();
+    }
+
+    function connectionClosed() {
+      return new McpError(ErrorCode.ConnectionClosed, "Connection closed");
+    }
+
+    it("emits lifecycle events and reconnects after the server dies", async () => {
+      const client = new QortexMcpClient({ reconnect });
+      const events: string[] = [];
+      for (const event of ["connecting", "connected", "disconnected", "reconnecting"] as const) {
+        client.on(event, () => events.push(event));
+      }
+      const disconnected = vi.fn();
+      client.on("disconnected", disconnected);
+
+      await client.connect();
+      crash(0, new Error("process exited"));
+      expect(client.connected).toBe(false);
+      expect(disconnected).toHaveBeenCalledWith(new Error("process exited"));
+
+      await vi.waitFor(() => expect(client.connected).toBe(true));
+      expect(events).toEqual([
+        "connecting",
+        "connected",
+        "disconnected",
+        "reconnecting",
+        "connecting",
+        "connected",
+      ]);
+      expect(sdk.transports.map((t) => t.kind)).toEqual(["stdio", "stdio"]);
+    });
+
+    it("backs off exponentially between failed attempts", async () => {
+      const client = new QortexMcpClient({
+        reconnect: { initialDelayMs: 1, multiplier: 2, maxDelayMs: 3, maxRetries: 4 },
+      });
+      const delays: number[] = [];
+      client.on("reconnecting", ({ delayMs }) => delays.push(delayMs));
+
+      await client.connect();
+      sdk.failing.add("stdio");
+      crash(0);
+
+      await vi.waitFor(() => expect(delays).toHaveLength(4));
+      expect(delays).toEqual([1, 2, 3, 3]);
+
+      sdk.failing.clear();
+      await client.connect();
+      expect(client.connected).toBe(true);
+    });
+
+    it("replays idempotent calls interrupted by a crash", async () => {
+      const client = new QortexMcpClient({ reconnect, validation });
+      await client.connect();
+      sdk.clients[0].callTool.mockImplementationOnce(async () => {
+        crash(0);
+        throw connectionClosed();
+      });
+
+      const result = await client.callTool("qortex_query", { context: "auth" });
+
+      expect(result).toEqual({});
+      expect(sdk.clients).toHaveLength(2);
+      expect(sdk.clients[1].callTool).toHaveBeenCalledWith({
+        name: "qortex_query",
+        arguments: { context: "auth" },
+      });
+    });
+
+    it("does not replay non-idempotent calls", async () => {
+      const client = new QortexMcpClient({ reconnect, validation });
+      await client.connect();
+      sdk.clients[0].callTool.mockImplementationOnce(async () => {
+        crash(0);
+        throw connectionClosed();
+      });
+
+      await expect(
+        client.callTool("qortex_vector_upsert", { index_name: "docs" }),
+      ).rejects.toThrow(QortexConnectionError);
+
+      // The client still recovers for later calls
+      await vi.waitFor(() => expect(client.connected).toBe(true));
+    });
+
+    it("replays calls explicitly marked idempotent", async () => {
+      const client = new QortexMcpClient({ reconnect, validation });
+      await client.connect();
+      sdk.clients[0].callTool.mockImplementationOnce(async () => {
+        crash(0);
+        throw connectionClosed();
+      });
+
+      await client.callTool(
+        "qortex_vector_upsert",
+        { index_name: "docs", ids: ["a"] },
+        { idempotent: true },
+      );
+      expect(sdk.clients[1].callTool).toHaveBeenCalled();
+    });
+
+    it("does not reconnect when disabled", async () => {
+      const client = new QortexMcpClient({ reconnect: false });
+      const reconnecting = vi.fn();
+      client.on("reconnecting", reconnecting);
+
+      await client.connect();
+      crash(0);
+
+      expect(client.connected).toBe(false);
+      expect(reconnecting).not.toHaveBeenCalled();
+    });
+
+    it("does not reconnect after disconnect()", async () => {
+      const client = new QortexMcpClient({ reconnect });
+      const reconnecting = vi.fn();
+      client.on("reconnecting", reconnecting);
+
+      await client.connect();
+      await client.disconnect();
+      crash(0);
+
+      expect(reconnecting).not.toHaveBeenCalled();
+      expect(sdk.transports).toHaveLength(1);
+    });
+
+    /** Hold connects until the returned function is called. */
+    function holdConnects(): () => void {
+      let release!: () => void;
+      sdk.pending = new Promise((resolve) => (release = resolve));
+      return () => {
+        sdk.pending = null;
+        release();
+      };
+    }
+
+    it("abandons a connect in progress on disconnect()", async () => {
+      const client = new QortexMcpClient({ reconnect });
+      const release = holdConnects();
+
+      const connecting = client.connect();
+      await vi.waitFor(() => expect(sdk.transports).toHaveLength(1));
+      await client.disconnect();
+      release();
+
+      await expect(connecting).rejects.toThrow(
+        new QortexConnectionError("Client disconnected while connecting"),
+      );
+      expect(client.connected).toBe(false);
+      expect(sdk.transports[0].close).toHaveBeenCalled();
+
+      // The client still connects afresh and recovers from later crashes
+      await client.connect();
+      expect(client.connected).toBe(true);
+      crash(1);
+      await vi.waitFor(() => expect(client.connected).toBe(true));
+      expect(sdk.transports).toHaveLength(3);
+    });
+
+    it("abandons a reconnect in progress on disconnect()", async () => {
+      const client = new QortexMcpClient({ reconnect });
+      const reconnecting = vi.fn();
+      client.on("reconnecting", reconnecting);
+      await client.connect();
+      const release = holdConnects();
+
+      crash(0);
+      await vi.waitFor(() => expect(sdk.transports).toHaveLength(2));
+      await client.disconnect();
+      release();
+
+      await vi.waitFor(() => expect(sdk.transports[1].close).toHaveBeenCalled());
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(client.connected).toBe(false);
+      expect(reconnecting).toHaveBeenCalledTimes(1);
+      expect(sdk.transports).toHaveLength(2);
+    });
+  });
+
+  describe("capability discovery", () => {
+    it("discovers tools and server version on connect", async () => {
+      const client = new QortexMcpClient();
+      expect(client.capabilities).toBeNull();
+
+      await client.connect();
+
+      expect(client.capabilities).toEqual({
+        serverName: "qortex",
+        serverVersion: "0.3.0",
+        tools: sdk.tools,
+      });
+      expect(client.supportsTool("qortex_query")).toBe(true);
+      expect(client.supportsTool("qortex_vector_delete")).toBe(false);
+    });
+
+    it("fails fast on tools the server does not expose", async () => {
+      sdk.serverVersion = "0.1.4";
+      const client = new QortexMcpClient();
+
+      const err = await client
+        .callTool("qortex_vector_list_indexes", {})
+        .catch((e) => e);
+
+      expect(err).toBeInstanceOf(QortexToolNotFoundError);
+      expect(err.message).toBe(
+        "qortex_vector_list_indexes is unsupported by qortex server v0.1.4",
+      );
+      expect(err.toolName).toBe("qortex_vector_list_indexes");
+      expect(sdk.clients[0].callTool).not.toHaveBeenCalled();
+    });
+
+    it("assumes every tool exists when tools cannot be listed", async () => {
+      sdk.failing.add("tools/list");
+      const client = new QortexMcpClient({ validation: "off" });
+      await client.connect();
+
+      expect(client.capabilities!.tools).toBeNull();
+      await client.callTool("qortex_vector_list_indexes", {});
+      expect(sdk.clients[0].callTool).toHaveBeenCalled();
+    });
+
+    it("rediscovers after reconnecting to a different server", async () => {
+      const client = new QortexMcpClient({ reconnect: { initialDelayMs: 1 } });
+      await client.connect();
+      expect(client.supportsTool("qortex_vector_list_indexes")).toBe(false);
+
+      sdk.tools = [...sdk.tools, "qortex_vector_list_indexes"];
+      sdk.serverVersion = "0.4.0";
+      sdk.clients[0].onclose?.();
+
+      await vi.waitFor(() => expect(client.capabilities?.serverVersion).toBe("0.4.0"));
+      expect(client.supportsTool("qortex_vector_list_indexes")).toBe(true);
+    });
+  });
+
+  describe("timeouts and cancellation", () => {
+    const validation = "off" as const;
+
+    it("passes timeoutMs and signal to the SDK", async () => {
+      const client = new QortexMcpClient({ validation });
+      const controller = new AbortController();
+      await client.callTool("qortex_query", {}, { timeoutMs: 250, signal: controller.signal });
+
+      expect(sdk.clients[0].callTool).toHaveBeenCalledWith(
+        { name: "qortex_query", arguments: {} },
+        undefined,
+        { timeout: 250, signal: controller.signal },
+      );
+    });
+
+    it("maps request timeouts to QortexTimeoutError", async () => {
+      const client = new QortexMcpClient({ validation });
+      await client.connect();
+      sdk.clients[0].callTool.mockRejectedValueOnce(
+        new McpError(ErrorCode.RequestTimeout, "Request timed out"),
+      );
+
+      const err = await client
+        .callTool("qortex_query", {}, { timeoutMs: 5 })
+        .catch((e: unknown) => e);
+      expect(err).toBeInstanceOf(QortexTimeoutError);
+      expect(err).toBeInstanceOf(QortexConnectionError);
+    });
+
+    it("fails with QortexAbortError when the signal fires", async () => {
+      const client = new QortexMcpClient({ validation });
+      await client.connect();
+      const controller = new AbortController();
+      sdk.clients[0].callTool.mockImplementationOnce(async () => {
+        controller.abort(new Error("user cancelled"));
+        throw new Error("AbortError");
+      });
+
+      const err = await client
+        .callTool("qortex_query", {}, { signal: controller.signal })
+        .catch((e: unknown) => e);
+      expect(err).toBeInstanceOf(QortexAbortError);
+      expect((err as Error).message).toBe("qortex_query was aborted");
+      expect((err as Error).cause).toEqual(new Error("user cancelled"));
+    });
+
+    it("does not send calls whose signal is already aborted", async () => {
+      const client = new QortexMcpClient({ validation });
+      const err = await client
+        .callTool("qortex_query", {}, { signal: AbortSignal.abort() })
+        .catch((e: unknown) => e);
+
+      expect(err).toBeInstanceOf(QortexAbortError);
+      expect(sdk.clients).toHaveLength(0);
+    });
+
+    it("sends notifications/cancelled to the server when the signal fires", async () => {
+      // A real SDK client over a linked in-memory transport, so the
+      // cancellation travels over the wire
+      const { Client } = await vi.importActual<
+        typeof import("@modelcontextprotocol/sdk/client/index.js")
+      >("@modelcontextprotocol/sdk/client/index.js");
+      const server = new Server(
+        { name: "qortex", version: "0.3.0" },
+        { capabilities: { tools: {} } },
+      );
+      let received!: () => void;
+      const started = new Promise<void>((resolve) => (received = resolve));
+      const cancelled = new Promise<unknown>((resolve) => {
+        // Never answers; resolves with the reason once the server cancels the request
+        server.setRequestHandler(CallToolRequestSchema, (_request, extra) => {
+          extra.signal.addEventListener("abort", () => resolve(extra.signal.reason));
+          received();
+          return new Promise(() => {});
+        });
+      });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      const mcpClient = new Client({ name: "test", version: "0.0.0" });
+      await mcpClient.connect(clientTransport);
+
+      const client = new QortexMcpClient({ mcpClient, validation });
+      const controller = new AbortController();
+      const call = client.callTool("qortex_query", {}, { signal: controller.signal });
+      await started;
+      controller.abort(new Error("user cancelled"));
+
+      await expect(call).rejects.toThrow(QortexAbortError);
+      expect(await cancelled).toBe("Error: user cancelled");
+      await mcpClient.close();
+    });
+  });
+
+  describe("connection pool", () => {
+    const validation = "off" as const;
+    const reconnect = false;
+
+    it("opens one connection per member", async () => {
+      const pool = new QortexMcpPool({ validation }, 3);
+      await pool.connect();
+
+      expect(sdk.transports.map((t) => t.kind)).toEqual(["stdio", "stdio", "stdio"]);
+      expect(pool.connected).toBe(true);
+      expect(pool.capabilities?.serverVersion).toBe("0.3.0");
+      await pool.disconnect();
+    });
+
+    it("sends each call to the least busy member", async () => {
+      const pool = new QortexMcpPool({ validation }, 2);
+      await pool.connect();
+      let release!: () => void;
+      sdk.clients[0].callTool.mockImplementationOnce(async () => {
+        await new Promise<void>((resolve) => (release = resolve));
+        return { content: [{ type: "text", text: "{}" }] };
+      });
+
+      const slow = pool.callTool("qortex_query", {});
+      await vi.waitFor(() => expect(pool.stats.map((m) => m.inFlight)).toEqual([1, 0]));
+      await pool.callTool("qortex_query", {});
+      await pool.callTool("qortex_query", {});
+
+      expect(sdk.clients[0].callTool).toHaveBeenCalledTimes(1);
+      expect(sdk.clients[1].callTool).toHaveBeenCalledTimes(2);
+      release();
+      await slow;
+      await pool.disconnect();
+    });
+
+    it("retries idempotent calls on another member when a connection drops", async () => {
+      const pool = new QortexMcpPool({ validation, reconnect }, 2);
+      await pool.connect();
+      const closed = () => new McpError(ErrorCode.ConnectionClosed, "Connection closed");
+      sdk.clients[0].callTool.mockRejectedValueOnce(closed());
+
+      await pool.callTool("qortex_query", {});
+      expect(sdk.clients[1].callTool).toHaveBeenCalledTimes(1);
+      expect(pool.stats.map((m) => m.healthy)).toEqual([false, true]);
+
+      // Writes are not retried
+      sdk.clients[1].callTool.mockRejectedValueOnce(closed());
+      await expect(pool.callTool("qortex_vector_upsert", {})).rejects.toBeInstanceOf(
+        QortexConnectionError,
+      );
+      expect(sdk.clients[0].callTool).toHaveBeenCalledTimes(1);
+      await pool.disconnect();
+    });
+
+    it("takes failing members out of rotation until a health check passes", async () => {
+      const pool = new QortexMcpPool({ validation }, { size: 2, healthCheckIntervalMs: 0 });
+      await pool.connect();
+      sdk.clients[1].ping.mockRejectedValueOnce(new Error("no answer"));
+
+      const stats = await pool.checkHealth();
+      expect(stats.map((m) => m.healthy)).toEqual([true, false]);
+      await pool.callTool("qortex_query", {});
+      await pool.callTool("qortex_query", {});
+      expect(sdk.clients[1].callTool).not.toHaveBeenCalled();
+
+      expect((await pool.checkHealth()).map((m) => m.healthy)).toEqual([true, true]);
+      await pool.disconnect();
+    });
+
+    it("connects when only some members can start", async () => {
+      const pool = new QortexMcpPool({ validation }, 2);
+      const connect = vi
+        .spyOn(QortexMcpClient.prototype, "connect")
+        .mockRejectedValueOnce(new QortexConnectionError("spawn failed"));
+
+      await pool.connect();
+      connect.mockRestore();
+      expect(pool.stats.map((m) => m.healthy)).toEqual([false, true]);
+      await pool.disconnect();
+    });
+
+    it("drains in-flight calls before disconnecting", async () => {
+      const pool = new QortexMcpPool({ validation }, 2);
+      await pool.connect();
+      let release!: () => void;
+      sdk.clients[0].callTool.mockImplementationOnce(async () => {
+        await new Promise<void>((resolve) => (release = resolve));
+        return { content: [{ type: "text", text: "{}" }] };
+      });
+
+      const inFlight = pool.callTool("qortex_query", {});
+      await vi.waitFor(() => expect(release).toBeDefined());
+      const closed = pool.disconnect();
+
+      await expect(pool.callTool("qortex_query", {})).rejects.toThrow(
+        "Connection pool is shutting down",
+      );
+      expect(sdk.transports[0].close).not.toHaveBeenCalled();
+      release();
+      await expect(inFlight).resolves.toEqual({});
+      await closed;
+      expect(sdk.transports.every((t) => t.close.mock.calls.length === 1)).toBe(true);
+      expect(pool.connected).toBe(false);
+    });
+
+    it("stops waiting for in-flight calls after drainTimeoutMs", async () => {
+      const pool = new QortexMcpPool({ validation }, { size: 1, drainTimeoutMs: 5 });
+      await pool.connect();
+      sdk.clients[0].callTool.mockImplementationOnce(() => new Promise(() => {}));
+
+      void pool.callTool("qortex_query", {});
+      await vi.waitFor(() => expect(pool.stats[0].inFlight).toBe(1));
+      await pool.disconnect();
+      expect(sdk.transports[0].close).toHaveBeenCalled();
+    });
+
+    it("cannot wrap an existing MCP client", () => {
+      expect(
+        () => new QortexMcpPool({ mcpClient: {} as never }, 2),
+      ).toThrow(QortexValidationError);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Unit tests for the embedding cache.
+ *
+ * Uses fake embeddings that record what they are asked to embed, and
+ * FakeQortexServer for the store integration.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { QortexVectorStore } from "../src/vectorstore.js";
+import { FakeQortexServer } from "../src/testing.js";
+import { QortexEmbeddings } from "../src/embeddings.js";
+import {
+  QortexCachedEmbeddings,
+  QortexFileEmbeddingStore,
+  QortexMemoryEmbeddingStore,
+} from "../src/embedding-cache.js";
+import { QortexValidationError } from "../src/errors.js";
+import { createMockClient } from "./helpers.js";
+
+// ---------------------------------------------------------------------------
+// Mock helpers
+// ---------------------------------------------------------------------------
+
+/** Deterministic 2-d embedding: text length and a marker for the kind. */
+function createFakeEmbeddings(model = "fake-small"): EmbeddingsInterface {
+  return {
+    model,
+    embedDocuments: vi.fn(async (texts: string[]) => texts.map((t) => [t.length, 0])),
+    embedQuery: vi.fn(async (text: string) => [text.length, 1]),
+  } as unknown as EmbeddingsInterface;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("QortexCachedEmbeddings", () => {
+  let embeddings: EmbeddingsInterface;
+  let cached: QortexCachedEmbeddings;
+
+  beforeEach(() => {
+    embeddings = createFakeEmbeddings();
+    cached = new QortexCachedEmbeddings({ embeddings });
+  });
+
+  it("embeds only texts it has not seen, each once", async () => {
+    expect(await cached.embedDocuments(["a", "bb", "a"])).toEqual([[1, 0], [2, 0], [1, 0]]);
+    expect(await cached.embedDocuments(["bb", "ccc"])).toEqual([[2, 0], [3, 0]]);
+
+    expect(embeddings.embedDocuments).toHaveBeenNthCalledWith(1, ["a", "bb"]);
+    expect(embeddings.embedDocuments).toHaveBeenNthCalledWith(2, ["ccc"]);
+    // The repeated "a" was embedded, not found in the cache: only "bb" is a hit
+    expect(cached.stats).toEqual({ hits: 1, misses: 3 });
+  });
+
+  it("makes no embedding call when every text is cached", async () => {
+    await cached.embedDocuments(["a", "bb"]);
+    await cached.embedDocuments(["bb", "a"]);
+
+    expect(embeddings.embedDocuments).toHaveBeenCalledTimes(1);
+  });
+
+  it("caches queries separately from documents", async () => {
+    await cached.embedDocuments(["auth"]);
+    expect(await cached.embedQuery("auth")).toEqual([4, 1]);
+    expect(await cached.embedQuery("auth")).toEqual([4, 1]);
+
+    expect(embeddings.embedQuery).toHaveBeenCalledTimes(1);
+    expect(cached.stats).toEqual({ hits: 1, misses: 2 });
+  });
+
+  it("keys on the model", async () => {
+    const store = new QortexMemoryEmbeddingStore();
+    const small = createFakeEmbeddings("fake-small");
+    const large = createFakeEmbeddings("fake-large");
+
+    await new QortexCachedEmbeddings({ embeddings: small, store }).embedDocuments(["a"]);
+    await new QortexCachedEmbeddings({ embeddings: large, store }).embedDocuments(["a"]);
+    await new QortexCachedEmbeddings({ embeddings: large, store }).embedDocuments(["a"]);
+
+    expect(small.embedDocuments).toHaveBeenCalledTimes(1);
+    expect(large.embedDocuments).toHaveBeenCalledTimes(1);
+    expect(store.size).toBe(2);
+  });
+
+  it("uses modelId when given", async () => {
+    const store = new QortexMemoryEmbeddingStore();
+    const model = { embed: vi.fn((texts: string[]) => texts.map(() => [1, 2])) };
+    const qortex = (modelId: string) =>
+      new QortexCachedEmbeddings({
+        embeddings: new QortexEmbeddings({ model }),
+        store,
+        modelId,
+      });
+
+    await qortex("minilm").embedDocuments(["a"]);
+    await qortex("minilm").embedDocuments(["a"]);
+    await qortex("bge").embedDocuments(["a"]);
+
+    expect(model.embed).toHaveBeenCalledTimes(2);
+  });
+
+  it("keys on the model wrapped by QortexEmbeddings", async () => {
+    const store = new QortexMemoryEmbeddingStore();
+    class MiniLm {
+      embed = vi.fn((texts: string[]) => texts.map(() => [1, 2]));
+    }
+    class Bge {
+      dimensions = 3;
+      embed = vi.fn((texts: string[]) => texts.map(() => [1, 2, 3]));
+    }
+    const miniLm = new MiniLm();
+    const bge = new Bge();
+    const wrap = (model: MiniLm | Bge) =>
+      new QortexCachedEmbeddings({ embeddings: new QortexEmbeddings({ model }), store });
+
+    await wrap(miniLm).embedDocuments(["a"]);
+    expect(await wrap(bge).embedDocuments(["a"])).toEqual([[1, 2, 3]]);
+    await wrap(miniLm).embedDocuments(["a"]);
+
+    expect(miniLm.embed).toHaveBeenCalledTimes(1);
+    expect(bge.embed).toHaveBeenCalledTimes(1);
+  });
+
+  it("requires modelId for a store when the model cannot be identified", () => {
+    const model = { embed: (texts: string[]) => texts.map(() => [1, 2]) };
+    const anonymous = [
+      new QortexEmbeddings({ model }),
+      { embedDocuments: async () => [], embedQuery: async () => [] },
+    ];
+
+    for (const wrapped of anonymous) {
+      expect(
+        () => new QortexCachedEmbeddings({ embeddings: wrapped, store: new QortexMemoryEmbeddingStore() }),
+      ).toThrow(QortexValidationError);
+      // Its own in-memory store only ever holds this model
+      expect(() => new QortexCachedEmbeddings({ embeddings: wrapped })).not.toThrow();
+    }
+  });
+
+  it("keeps embeddings in a file across restarts", async () => {
+    const path = join(mkdtempSync(join(tmpdir(), "qortex-embeddings-")), "embeddings.jsonl");
+    await new QortexCachedEmbeddings({ embeddings, path }).embedDocuments(["a", "bb"]);
+    expect(readFileSync(path, "utf8").trim().split("\n")).toHaveLength(2);
+
+    const restarted = createFakeEmbeddings();
+    const reloaded = new QortexCachedEmbeddings({ embeddings: restarted, path });
+    expect(await reloaded.embedDocuments(["bb", "a"])).toEqual([[2, 0], [1, 0]]);
+    expect(restarted.embedDocuments).not.toHaveBeenCalled();
+    expect(new QortexFileEmbeddingStore(path).size).toBe(2);
+  });
+
+  it("accepts any store with mget and mset", async () => {
+    const entries = new Map<string, number[]>();
+    const store = {
+      mget: vi.fn(async (keys: string[]) => keys.map((key) => entries.get(key))),
+      mset: vi.fn(async (pairs: [string, number[]][]) => {
+        for (const [key, value] of pairs) entries.set(key, value);
+      }),
+    };
+    cached = new QortexCachedEmbeddings({ embeddings, store });
+
+    await cached.embedDocuments(["a"]);
+    await cached.embedDocuments(["a"]);
+    expect(store.mset).toHaveBeenCalledTimes(1);
+    expect(store.mset).toHaveBeenCalledWith([[expect.stringMatching(/^[0-9a-f]{64}$/), [1, 0]]]);
+    expect(embeddings.embedDocuments).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("QortexVectorStore embeddingCache", () => {
+  it("does not re-embed unchanged documents", async () => {
+    const embeddings = createFakeEmbeddings();
+    const server = new FakeQortexServer();
+    const store = new QortexVectorStore(embeddings, {
+      mcpClient: await server.connect(),
+      embeddingCache: true,
+    });
+    await store.createIndex({ dimension: 2 });
+    const docs = [{ pageContent: "OAuth2", metadata: {} }];
+
+    await store.addDocuments(docs, { ids: ["d-1"] });
+    await store.addDocuments(docs, { ids: ["d-1"] });
+
+    expect(embeddings.embedDocuments).toHaveBeenCalledTimes(1);
+    expect(store.embeddingCacheStats).toEqual({ hits: 1, misses: 1 });
+    const { documents } = await store.getByIds(["d-1"]);
+    expect(documents.map((doc) => doc.pageContent)).toEqual(["OAuth2"]);
+    await server.close();
+  });
+
+  it("reports no stats without embeddingCache", () => {
+    const store = new QortexVectorStore(createFakeEmbeddings(), {
+      mcpClient: createMockClient().client,
+    });
+    expect(store.embeddingCacheStats).toBeNull();
+  });
+});
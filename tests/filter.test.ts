@@ -0,0 +1,138 @@
+/**
+ * Unit tests for the structured filter language.
+ *
+ * Covers client-side evaluation of every operator and how filters are
+ * split between the server and the client for each query path.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  compileGraphFilter,
+  compileVectorFilter,
+  matchesFilter,
+} from "../src/filter.js";
+import { QortexValidationError } from "../src/errors.js";
+
+const doc = {
+  source: "rfc6749",
+  year: 2012,
+  tag: "auth",
+  domain: "security",
+  confidence: 0.8,
+  draft: null,
+};
+
+describe("matchesFilter", () => {
+  it.each([
+    [{ source: "rfc6749" }, true],
+    [{ source: "rfc7519" }, false],
+    [{ source: { $eq: "rfc6749" } }, true],
+    [{ source: { $ne: "rfc6749" } }, false],
+    [{ tag: { $in: ["auth", "jwt"] } }, true],
+    [{ tag: { $nin: ["auth", "jwt"] } }, false],
+    [{ year: { $gt: 2010, $lt: 2015 } }, true],
+    [{ year: { $gte: 2013 } }, false],
+    [{ year: { $lte: 2012 } }, true],
+    [{ year: { $gt: "2010" } }, false],
+    [{ draft: { $exists: true } }, true],
+    [{ reviewed: { $exists: false } }, true],
+    [{ reviewed: { $ne: true } }, true],
+    [{ reviewed: { $gt: 1 } }, false],
+    [{ domains: ["security", "infra"] }, true],
+    [{ min_confidence: 0.9 }, false],
+    [{ $and: [{ tag: "auth" }, { year: 2012 }] }, true],
+    [{ $or: [{ tag: "jwt" }, { year: 2012 }] }, true],
+    [{ $or: [{ tag: "jwt" }, { year: 2020 }] }, false],
+    [{ tag: "auth", $or: [{ source: "x" }, { $and: [{ year: { $lt: 2000 } }] }] }, false],
+  ])("%j -> %s", (filter, expected) => {
+    expect(matchesFilter(filter, doc)).toBe(expected);
+  });
+});
+
+describe("compileVectorFilter", () => {
+  it("returns nothing for no filter", () => {
+    expect(compileVectorFilter(undefined)).toEqual({});
+  });
+
+  it("sends equality, $in and ranges to the server", () => {
+    const { server, client } = compileVectorFilter({
+      source: "rfc6749",
+      tag: { $in: ["auth"] },
+      $and: [{ year: { $gte: 2010, $lt: 2020 } }],
+    });
+
+    expect(server).toEqual({
+      source: "rfc6749",
+      tag: { $in: ["auth"] },
+      year: { $gte: 2010, $lt: 2020 },
+    });
+    expect(client).toBeUndefined();
+  });
+
+  it("maps graph predicates onto metadata fields", () => {
+    const { server } = compileVectorFilter({
+      domains: ["security"],
+      min_confidence: 0.5,
+    });
+
+    expect(server).toEqual({
+      domain: { $in: ["security"] },
+      confidence: { $gte: 0.5 },
+    });
+  });
+
+  it("keeps $or, $ne, $nin and $exists on the client", () => {
+    const { server, client } = compileVectorFilter({
+      source: "rfc6749",
+      $or: [{ tag: "auth" }, { tag: "jwt" }],
+      year: { $ne: 2000 },
+      draft: { $exists: true },
+    });
+
+    expect(server).toEqual({ source: "rfc6749" });
+    expect(client!(doc)).toBe(true);
+    expect(client!({ ...doc, tag: "infra" })).toBe(false);
+    expect(client!({ ...doc, year: 2000 })).toBe(false);
+  });
+
+  it("keeps a repeated field on the client", () => {
+    const { server, client } = compileVectorFilter({
+      year: { $gte: 2010 },
+      $and: [{ year: { $lt: 2012 } }],
+    });
+
+    expect(server).toEqual({ year: { $gte: 2010 } });
+    expect(client!(doc)).toBe(false);
+  });
+
+  it("rejects unknown operators and combinators", () => {
+    expect(() => compileVectorFilter({ year: { $between: [1, 2] } } as never)).toThrow(
+      QortexValidationError,
+    );
+    expect(() => compileVectorFilter({ $not: [{ tag: "auth" }] } as never)).toThrow(
+      'Invalid filter on "$not"',
+    );
+    expect(() => compileVectorFilter({ tag: { $in: "auth" } } as never)).toThrow(
+      "$in expects an array",
+    );
+  });
+});
+
+describe("compileGraphFilter", () => {
+  it("sends domains and min_confidence to qortex_query", () => {
+    expect(
+      compileGraphFilter({ domains: ["infra"], min_confidence: 0.5 }),
+    ).toEqual({ domains: ["infra"], minConfidence: 0.5 });
+  });
+
+  it("applies metadata clauses on the client", () => {
+    const { domains, client } = compileGraphFilter({
+      domains: ["security"],
+      source: { $in: ["rfc6749", "rfc7519"] },
+    });
+
+    expect(domains).toEqual(["security"]);
+    expect(client!(doc)).toBe(true);
+    expect(client!({ ...doc, source: "rfc1" })).toBe(false);
+  });
+});
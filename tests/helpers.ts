@@ -0,0 +1,41 @@
+/**
+ * Helpers shared by the unit tests: a mock MCP client for tests that stub
+ * tool responses, and bag-of-words embeddings for tests that run against
+ * FakeQortexServer, where search needs meaningful similarity.
+ */
+
+import { vi } from "vitest";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+
+/** Terms counted by `embed`; its vectors have this many dimensions. */
+export const VOCABULARY = ["oauth", "token", "jwt", "rate", "limit", "cache"];
+
+/** Bag-of-words embedding over a tiny vocabulary, so cosine is meaningful. */
+export function embed(text: string): number[] {
+  const words = text.toLowerCase().split(/\W+/);
+  return VOCABULARY.map((term) => words.filter((w) => w === term).length);
+}
+
+/** Embeddings built on `embed`. */
+export const embeddings: EmbeddingsInterface = {
+  embedQuery: async (text: string) => embed(text),
+  embedDocuments: async (texts: string[]) => texts.map(embed),
+};
+
+/** An MCP client whose only method is a `callTool` mock. */
+export function createMockClient(): {
+  client: Client;
+  callTool: ReturnType<typeof vi.fn>;
+} {
+  const callTool = vi.fn();
+  const client = { callTool } as unknown as Client;
+  return { client, callTool };
+}
+
+/** A tool result carrying `data` as JSON text, as qortex tools return it. */
+export function mockResponse(data: unknown) {
+  return {
+    content: [{ type: "text", text: JSON.stringify(data) }],
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * Unit tests for QortexGraphRetriever.
+ *
+ * Uses a mock MCP client to test search + neighborhood expansion, hop
+ * counting, rule attachment, and de-duplication.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { QortexVectorStore } from "../src/vectorstore.js";
+import { QortexGraphRetriever } from "../src/retriever.js";
+import { createMockClient, mockResponse } from "./helpers.js";
+
+// ---------------------------------------------------------------------------
+// Mock helpers
+// ---------------------------------------------------------------------------
+
+function node(id: string, name: string) {
+  return { id, name, description: `${name} concept`, domain: "security", confidence: 1.0, properties: {} };
+}
+
+function edge(source_id: string, target_id: string, relation_type: string) {
+  return { source_id, target_id, relation_type, confidence: 0.9, properties: {} };
+}
+
+function rule(id: string, text: string, source_concepts: string[]) {
+  return {
+    id,
+    text,
+    domain: "security",
+    category: "security",
+    confidence: 1.0,
+    relevance: 0.9,
+    derivation: "explicit",
+    source_concepts,
+    metadata: {},
+  };
+}
+
+const searchResponse = {
+  items: [
+    { id: "i-1", content: "OAuth2 framework", score: 0.94, domain: "security", node_id: "sec:oauth", metadata: {} },
+    { id: "i-2", content: "JWT validation", score: 0.85, domain: "security", node_id: "sec:jwt", metadata: {} },
+  ],
+  query_id: "q-1",
+  rules: [],
+};
+
+// sec:oauth -REQUIRES-> sec:jwt -USES-> sec:jwk ; sec:pkce -EXTENDS-> sec:oauth
+const oauthNeighborhood = {
+  node: node("sec:oauth", "OAuth2"),
+  edges: [
+    edge("sec:oauth", "sec:jwt", "REQUIRES"),
+    edge("sec:jwt", "sec:jwk", "USES"),
+    edge("sec:pkce", "sec:oauth", "EXTENDS"),
+  ],
+  neighbors: [node("sec:jwt", "JWT"), node("sec:jwk", "JWK"), node("sec:pkce", "PKCE")],
+  rules: [
+    rule("rule:pkce", "Use PKCE for public clients", ["sec:pkce"]),
+    rule("rule:jwk", "Rotate signing keys", ["sec:jwk"]),
+  ],
+};
+
+const jwtNeighborhood = {
+  node: node("sec:jwt", "JWT"),
+  edges: [edge("sec:jwt", "sec:jwk", "USES")],
+  neighbors: [node("sec:jwk", "JWK")],
+  rules: [rule("rule:jwk", "Rotate signing keys", ["sec:jwk"])],
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("QortexGraphRetriever", () => {
+  let store: QortexVectorStore;
+  let callTool: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    const mock = createMockClient();
+    callTool = mock.callTool.mockImplementation(async ({ name, arguments: args }) => {
+      if (name === "qortex_query") return mockResponse(searchResponse);
+      if (name === "qortex_explore") {
+        if (args.node_id === "sec:oauth") return mockResponse(oauthNeighborhood);
+        if (args.node_id === "sec:jwt") return mockResponse(jwtNeighborhood);
+        return mockResponse({ node: null });
+      }
+      throw new Error(`unexpected tool ${name}`);
+    });
+    store = new QortexVectorStore({} as EmbeddingsInterface, {
+      mcpClient: mock.client,
+      domain: "security",
+    });
+  });
+
+  it("returns search results followed by reached concepts and rules", async () => {
+    const retriever = new QortexGraphRetriever({ vectorStore: store, k: 2, depth: 2, expandTop: 1 });
+
+    const docs = await retriever.invoke("authentication");
+
+    expect(docs.map((d) => [d.metadata.qortex_kind, d.id])).toEqual([
+      ["result", "i-1"],
+      ["result", "i-2"],
+      ["concept", "sec:jwk"],
+      ["concept", "sec:pkce"],
+      ["rule", "rule:pkce"],
+      ["rule", "rule:jwk"],
+    ]);
+    expect(callTool).toHaveBeenCalledWith({
+      name: "qortex_explore",
+      arguments: { node_id: "sec:oauth", depth: 2 },
+    });
+  });
+
+  it("tags each concept with hop count and the edge that reached it", async () => {
+    const retriever = new QortexGraphRetriever({ vectorStore: store, k: 2, depth: 2, expandTop: 1 });
+
+    const docs = await retriever.invoke("authentication");
+    const byId = Object.fromEntries(docs.map((d) => [d.id, d]));
+
+    expect(byId["i-1"].metadata).toMatchObject({ hops: 0, node_id: "sec:oauth" });
+    expect(byId["sec:jwk"].pageContent).toBe("JWK: JWK concept");
+    expect(byId["sec:jwk"].metadata).toMatchObject({
+      hops: 2,
+      relation_type: "USES",
+      via_node_id: "sec:jwt",
+      seed_node_id: "sec:oauth",
+    });
+    expect(byId["sec:pkce"].metadata).toMatchObject({
+      hops: 1,
+      relation_type: "EXTENDS",
+      via_node_id: "sec:oauth",
+    });
+    expect(byId["rule:jwk"].metadata).toMatchObject({
+      hops: 2,
+      relation_type: "USES",
+      node_id: "sec:jwk",
+    });
+  });
+
+  it("does not repeat concepts or rules reached from several results", async () => {
+    const retriever = new QortexGraphRetriever({ vectorStore: store, k: 2, depth: 2 });
+
+    const docs = await retriever.invoke("authentication");
+
+    const ids = docs.map((d) => d.id);
+    expect(ids).toEqual([...new Set(ids)]);
+    expect(callTool).toHaveBeenCalledTimes(3);
+  });
+
+  it("ignores concepts beyond the configured depth", async () => {
+    const retriever = new QortexGraphRetriever({ vectorStore: store, k: 2, depth: 1, expandTop: 1 });
+
+    const docs = await retriever.invoke("authentication");
+
+    expect(docs.filter((d) => d.metadata.qortex_kind === "concept").map((d) => d.id)).toEqual([
+      "sec:pkce",
+    ]);
+  });
+
+  it("can leave rules out", async () => {
+    const retriever = new QortexGraphRetriever({ vectorStore: store, k: 2, includeRules: false });
+
+    const docs = await retriever.invoke("authentication");
+    expect(docs.some((d) => d.metadata.qortex_kind === "rule")).toBe(false);
+  });
+
+  it("passes the filter to the initial search", async () => {
+    const retriever = new QortexGraphRetriever({
+      vectorStore: store,
+      filter: { domains: ["infra"] },
+      expandTop: 0,
+    });
+
+    await retriever.invoke("rate limits");
+    expect(callTool).toHaveBeenCalledTimes(1);
+    expect(callTool).toHaveBeenCalledWith(
+      expect.objectContaining({
+        arguments: expect.objectContaining({ domains: ["infra"], top_k: 4 }),
+      }),
+    );
+  });
+
+  it("passes RunnableConfig.signal to the search and every explore", async () => {
+    const retriever = new QortexGraphRetriever({ vectorStore: store, k: 2 });
+    const controller = new AbortController();
+
+    await retriever.invoke("authentication", { signal: controller.signal });
+    expect(callTool).toHaveBeenCalledTimes(3);
+    for (const [, , options] of callTool.mock.calls) {
+      expect(options.signal).toBe(controller.signal);
+    }
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Tests for snapshot export and import.
+ *
+ * Moves an index and its graph between two FakeQortexServer instances and
+ * checks the JSONL format and its validation.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Readable } from "node:stream";
+import { Document } from "@langchain/core/documents";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { QortexVectorStore } from "../src/vectorstore.js";
+import { FakeQortexServer } from "../src/testing.js";
+import { QortexValidationError } from "../src/errors.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createEmbeddings(): EmbeddingsInterface {
+  const embed = (text: string) => [text.length, text.split(" ").length, 1];
+  return {
+    embedQuery: vi.fn(async (text: string) => embed(text)),
+    embedDocuments: vi.fn(async (texts: string[]) => texts.map(embed)),
+  } as unknown as EmbeddingsInterface;
+}
+
+async function collect(lines: AsyncIterable<string>): Promise<string[]> {
+  const out: string[] = [];
+  for await (const line of lines) out.push(line);
+  return out;
+}
+
+const graph = {
+  concepts: [
+    { id: "sec:oauth", name: "OAuth2", domain: "security" },
+    { id: "sec:jwt", name: "JWT", domain: "security" },
+    { id: "ops:deploy", name: "Deploy", domain: "ops" },
+  ],
+  edges: [{ source_id: "sec:oauth", target_id: "sec:jwt", relation_type: "REQUIRES" }],
+  rules: [{ id: "rule:pkce", text: "Use PKCE", domain: "security", source_concepts: ["sec:oauth"] }],
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("snapshots", () => {
+  let embeddings: EmbeddingsInterface;
+  let source: FakeQortexServer;
+  let target: FakeQortexServer;
+  let store: QortexVectorStore;
+
+  beforeEach(async () => {
+    embeddings = createEmbeddings();
+    source = new FakeQortexServer(graph);
+    target = new FakeQortexServer();
+    store = new QortexVectorStore(embeddings, {
+      mcpClient: await source.connect(),
+      indexName: "docs",
+      domain: "security",
+    });
+    await store.createIndex({ dimension: 3 });
+    await store.addDocuments([
+      new Document({ id: "d-1", pageContent: "oauth flows", metadata: { year: 2012 } }),
+      new Document({ id: "d-2", pageContent: "jwt signing keys", metadata: { year: 2015 } }),
+      new Document({ id: "d-3", pageContent: "rate limits", metadata: {} }),
+    ]);
+  });
+
+  afterEach(async () => {
+    await source.close();
+    await target.close();
+  });
+
+  it("exports a header, the vectors and the store's graph domain", async () => {
+    const lines = await collect(store.exportSnapshot({ batchSize: 2 }));
+    const records = lines.map((line) => JSON.parse(line));
+
+    expect(lines.every((line) => line.endsWith("\n"))).toBe(true);
+    expect(records[0]).toMatchObject({
+      type: "header",
+      format: "qortex-snapshot",
+      version: 1,
+      index_name: "docs",
+      dimension: 3,
+      metric: "cosine",
+      domains: ["security"],
+    });
+    expect(records.slice(1).map((r) => `${r.type}:${r.id ?? r.source_id}`)).toEqual([
+      "vector:d-1",
+      "vector:d-2",
+      "vector:d-3",
+      "node:sec:oauth",
+      "node:sec:jwt",
+      "edge:sec:oauth",
+      "rule:rule:pkce",
+    ]);
+    expect(records[1]).toEqual({
+      type: "vector",
+      id: "d-1",
+      vector: [11, 2, 1],
+      metadata: { text: "oauth flows", year: 2012 },
+    });
+  });
+
+  it("leaves the graph out on request", async () => {
+    const records = (await collect(store.exportSnapshot({ graph: false }))).map((l) => JSON.parse(l));
+    expect(records.map((r) => r.type)).toEqual(["header", "vector", "vector", "vector"]);
+  });
+
+  it("restores the index and graph elsewhere without re-embedding", async () => {
+    const lines = await collect(store.exportSnapshot());
+    vi.mocked(embeddings.embedDocuments).mockClear();
+
+    const restored = new QortexVectorStore(embeddings, {
+      mcpClient: await target.connect(),
+      indexName: "docs",
+      domain: "security",
+    });
+    const summary = await restored.importSnapshot(lines, { batchSize: 2 });
+
+    expect(summary).toEqual({ vectors: 3, nodes: 2, edges: 1, rules: 1 });
+    expect(embeddings.embedDocuments).not.toHaveBeenCalled();
+
+    const { documents } = await restored.getByIds(["d-1", "d-2"]);
+    expect(documents.map((d) => [d.pageContent, d.metadata])).toEqual([
+      ["oauth flows", { year: 2012 }],
+      ["jwt signing keys", { year: 2015 }],
+    ]);
+    const neighborhood = await restored.explore("sec:oauth");
+    expect(neighborhood!.neighbors.map((n) => n.id)).toEqual(["sec:jwt"]);
+    expect(neighborhood!.rules.map((r) => r.id)).toEqual(["rule:pkce"]);
+
+    // A second export of the restored store matches the first, apart from the timestamp.
+    const again = await collect(restored.exportSnapshot());
+    expect(again.slice(1)).toEqual(lines.slice(1));
+  });
+
+  it("keeps the index's own metric through a round trip", async () => {
+    const dots = new QortexVectorStore(embeddings, {
+      mcpClient: await source.connect(),
+      indexName: "dots",
+      metric: "dotproduct",
+    });
+    await dots.createIndex({ dimension: 3 });
+    await dots.addDocuments([new Document({ id: "d-1", pageContent: "oauth flows" })]);
+
+    const lines = await collect(dots.exportSnapshot({ graph: false }));
+    expect(JSON.parse(lines[0])).toMatchObject({ dimension: 3, metric: "dotproduct" });
+
+    // The importing store's own default metric must not win over the snapshot's.
+    const restored = new QortexVectorStore(embeddings, {
+      mcpClient: await target.connect(),
+      indexName: "dots",
+    });
+    await restored.importSnapshot(lines);
+    expect(await restored.describeIndex()).toMatchObject({ dimension: 3, metric: "dotproduct" });
+  });
+
+  it("reads snapshots from byte streams split mid-line", async () => {
+    const text = (await collect(store.exportSnapshot({ graph: false }))).join("");
+    const bytes = Buffer.from(text);
+    const chunks = [bytes.subarray(0, 10), bytes.subarray(10, 95), bytes.subarray(95)];
+
+    const restored = new QortexVectorStore(embeddings, {
+      mcpClient: await target.connect(),
+      indexName: "copy",
+    });
+    const summary = await restored.importSnapshot(Readable.from(chunks));
+
+    expect(summary.vectors).toBe(3);
+    expect(await restored.listIndexes()).toEqual(["copy"]);
+  });
+
+  it("rejects input that is not a snapshot", async () => {
+    await expect(store.importSnapshot("")).rejects.toThrow("Snapshot is empty");
+    await expect(
+      store.importSnapshot('{"type":"vector","id":"x","vector":[1],"metadata":{}}\n'),
+    ).rejects.toThrow(QortexValidationError);
+    await expect(store.importSnapshot("not json\n")).rejects.toThrow(
+      "Snapshot line 1 is not valid JSON",
+    );
+  });
+
+  it("rejects snapshots from a newer format version", async () => {
+    const header = { type: "header", format: "qortex-snapshot", version: 99, index_name: "docs", dimension: 3 };
+
+    await expect(store.importSnapshot(JSON.stringify(header))).rejects.toThrow(
+      "Snapshot version 99 is newer than supported version 1",
+    );
+  });
+});
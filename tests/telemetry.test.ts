@@ -0,0 +1,219 @@
+/**
+ * Unit tests for the optional OpenTelemetry instrumentation.
+ *
+ * Uses a recording tracer and meter (no OpenTelemetry SDK) and a mock MCP
+ * client to check spans, span nesting, metrics and the trace context sent
+ * in `_meta`.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import type { Meter, Span, Tracer } from "@opentelemetry/api";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { QortexVectorStore } from "../src/vectorstore.js";
+import { QortexIndexNotFoundError } from "../src/errors.js";
+import { createMockClient, mockResponse } from "./helpers.js";
+
+// ---------------------------------------------------------------------------
+// Recording tracer and meter
+// ---------------------------------------------------------------------------
+
+interface RecordedSpan {
+  name: string;
+  kind?: number;
+  parent?: RecordedSpan;
+  spanId: string;
+  attributes: Record<string, unknown>;
+  status?: { code: number; message?: string };
+  exceptions: Error[];
+  ended: boolean;
+}
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+
+function createTracer() {
+  const spans: RecordedSpan[] = [];
+  const active = new AsyncLocalStorage<RecordedSpan>();
+
+  const tracer = {
+    startActiveSpan(
+      name: string,
+      options: { kind?: number; attributes?: Record<string, unknown> },
+      fn: (span: Span) => unknown,
+    ) {
+      const recorded: RecordedSpan = {
+        name,
+        kind: options.kind,
+        parent: active.getStore(),
+        spanId: (spans.length + 1).toString(16).padStart(16, "0"),
+        attributes: { ...options.attributes },
+        exceptions: [],
+        ended: false,
+      };
+      spans.push(recorded);
+      const span = {
+        spanContext: () => ({ traceId: TRACE_ID, spanId: recorded.spanId, traceFlags: 1 }),
+        setAttribute(key: string, value: unknown) {
+          recorded.attributes[key] = value;
+          return span;
+        },
+        setAttributes(attributes: Record<string, unknown>) {
+          Object.assign(recorded.attributes, attributes);
+          return span;
+        },
+        setStatus(status: { code: number; message?: string }) {
+          recorded.status = status;
+          return span;
+        },
+        recordException(err: Error) {
+          recorded.exceptions.push(err);
+        },
+        end() {
+          recorded.ended = true;
+        },
+      };
+      return active.run(recorded, () => fn(span as unknown as Span));
+    },
+  } as unknown as Tracer;
+
+  return { tracer, spans };
+}
+
+function createMeter() {
+  const records: Record<string, Array<{ value: number; attributes: Record<string, unknown> }>> = {};
+  const meter = {
+    createHistogram(name: string) {
+      records[name] = [];
+      return {
+        record(value: number, attributes: Record<string, unknown> = {}) {
+          records[name].push({ value, attributes });
+        },
+      };
+    },
+  } as unknown as Meter;
+  return { meter, records };
+}
+
+const queryResult = {
+  items: [
+    { id: "i-1", content: "OAuth2", score: 0.9, domain: "security", node_id: "sec:oauth", metadata: {} },
+    { id: "i-2", content: "JWT", score: 0.8, domain: "security", node_id: "sec:jwt", metadata: {} },
+  ],
+  query_id: "q-1",
+  rules: [],
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("telemetry", () => {
+  let client: Client;
+  let callTool: ReturnType<typeof vi.fn>;
+  let tracing: ReturnType<typeof createTracer>;
+  let metering: ReturnType<typeof createMeter>;
+  let store: QortexVectorStore;
+
+  beforeEach(() => {
+    ({ client, callTool } = createMockClient());
+    tracing = createTracer();
+    metering = createMeter();
+    store = new QortexVectorStore({} as EmbeddingsInterface, {
+      mcpClient: client,
+      indexName: "docs",
+      domain: "security",
+      telemetry: { tracer: tracing.tracer, meter: metering.meter },
+    });
+  });
+
+  it("wraps each tool call in a client span with call attributes", async () => {
+    callTool.mockResolvedValueOnce(mockResponse(queryResult));
+    await store.similaritySearch("auth", 2);
+
+    const call = tracing.spans.find((s) => s.name === "tools/call qortex_query")!;
+    expect(call.kind).toBe(2);
+    expect(call.attributes).toMatchObject({
+      "qortex.tool.name": "qortex_query",
+      "qortex.domain": "security",
+      "qortex.top_k": 2,
+      "qortex.result.count": 2,
+      "qortex.response.size": JSON.stringify(queryResult).length,
+    });
+    expect(call.attributes["qortex.request.size"]).toBeGreaterThan(0);
+    expect(call.ended).toBe(true);
+  });
+
+  it("nests call spans under a span for the store method", async () => {
+    callTool.mockResolvedValueOnce(mockResponse(queryResult));
+    await store.similaritySearch("auth", 2);
+
+    const [method, call] = tracing.spans;
+    expect(method.name).toBe("QortexVectorStore.similaritySearch");
+    expect(method.attributes).toMatchObject({
+      "qortex.index.name": "docs",
+      "qortex.domain": "security",
+      "qortex.top_k": 2,
+      "qortex.result.count": 2,
+    });
+    expect(call.parent).toBe(method);
+  });
+
+  it("sends the call span's trace context in _meta", async () => {
+    callTool.mockResolvedValueOnce(mockResponse({ indexes: [] }));
+    await store.listIndexes();
+
+    const call = tracing.spans[0];
+    expect(callTool).toHaveBeenCalledWith({
+      name: "qortex_vector_list_indexes",
+      arguments: {},
+      _meta: { traceparent: `00-${TRACE_ID}-${call.spanId}-01` },
+    });
+  });
+
+  it("marks failed calls with an error status and type", async () => {
+    callTool.mockResolvedValueOnce({
+      isError: true,
+      content: [{ type: "text", text: JSON.stringify({ error: "Index 'docs' not found" }) }],
+    });
+
+    await expect(store.similaritySearchVectorWithScore([0.1], 3)).rejects.toBeInstanceOf(
+      QortexIndexNotFoundError,
+    );
+    for (const span of tracing.spans) {
+      expect(span.status).toEqual({ code: 2, message: "Index 'docs' not found" });
+      expect(span.attributes["error.type"]).toBe("QortexIndexNotFoundError");
+      expect(span.exceptions).toHaveLength(1);
+      expect(span.ended).toBe(true);
+    }
+  });
+
+  it("records latency and payload size histograms per tool", async () => {
+    callTool
+      .mockResolvedValueOnce(mockResponse({ ids: ["a"], count: 1 }))
+      .mockRejectedValueOnce(new Error("socket hang up"));
+
+    await store.addVectors([[0.1, 0.2]], [{ pageContent: "a", metadata: {} }], { ids: ["a"] });
+    await expect(store.addVectors([[0.3, 0.4]], [{ pageContent: "b", metadata: {} }])).rejects.toThrow();
+
+    const duration = metering.records["qortex.client.call.duration"];
+    expect(duration.map((r) => r.attributes)).toEqual([
+      { "qortex.tool.name": "qortex_vector_upsert" },
+      { "qortex.tool.name": "qortex_vector_upsert", "error.type": "QortexConnectionError" },
+    ]);
+    expect(duration.every((r) => r.value >= 0)).toBe(true);
+    expect(metering.records["qortex.client.request.size"]).toHaveLength(2);
+    expect(metering.records["qortex.client.response.size"].map((r) => r.value)).toEqual([
+      JSON.stringify({ ids: ["a"], count: 1 }).length,
+    ]);
+  });
+
+  it("records nothing and sends no _meta without telemetry", async () => {
+    const plain = new QortexVectorStore({} as EmbeddingsInterface, { mcpClient: client });
+    callTool.mockResolvedValueOnce(mockResponse({ indexes: [] }));
+
+    await plain.listIndexes();
+    expect(callTool).toHaveBeenCalledWith({ name: "qortex_vector_list_indexes", arguments: {} });
+    expect(tracing.spans).toHaveLength(0);
+  });
+});
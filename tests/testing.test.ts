@@ -0,0 +1,184 @@
+/**
+ * Tests for FakeQortexServer.
+ *
+ * Runs QortexVectorStore against the in-process fake over a real MCP
+ * in-memory transport: vector CRUD, cosine search, graph tools and
+ * feedback.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Document } from "@langchain/core/documents";
+import { QortexVectorStore } from "../src/vectorstore.js";
+import { QortexGraphRetriever } from "../src/retriever.js";
+import { FakeQortexServer } from "../src/testing.js";
+import {
+  QortexDimensionMismatchError,
+  QortexIndexNotFoundError,
+  QortexServerError,
+} from "../src/errors.js";
+import { embed, embeddings, VOCABULARY } from "./helpers.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const docs = [
+  new Document({ id: "d-oauth", pageContent: "oauth token flow", metadata: { node_id: "sec:oauth", year: 2012 } }),
+  new Document({ id: "d-jwt", pageContent: "jwt token signing", metadata: { node_id: "sec:jwt", year: 2015 } }),
+  new Document({ id: "d-rate", pageContent: "rate limit cache", metadata: { node_id: "infra:rate", year: 2020 } }),
+];
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("FakeQortexServer", () => {
+  let server: FakeQortexServer;
+  let store: QortexVectorStore;
+
+  beforeEach(async () => {
+    server = new FakeQortexServer({
+      embeddings,
+      concepts: [
+        { id: "sec:oauth", name: "OAuth2", domain: "security" },
+        { id: "sec:jwt", name: "JWT", domain: "security" },
+        { id: "sec:jwk", name: "JWK", domain: "security" },
+      ],
+      edges: [
+        { source_id: "sec:oauth", target_id: "sec:jwt", relation_type: "REQUIRES" },
+        { source_id: "sec:jwt", target_id: "sec:jwk", relation_type: "USES" },
+      ],
+      rules: [
+        { id: "rule:rotate", text: "Rotate signing keys", domain: "security", source_concepts: ["sec:jwk"] },
+        { id: "rule:pkce", text: "Use PKCE", domain: "security", category: "auth", source_concepts: ["sec:oauth"] },
+      ],
+    });
+    store = new QortexVectorStore(embeddings, {
+      mcpClient: await server.connect(),
+      indexName: "docs",
+      domain: "security",
+    });
+    await store.createIndex({ dimension: VOCABULARY.length });
+    await store.addDocuments(docs);
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("advertises the qortex tools", async () => {
+    await store.connect();
+    expect(store.capabilities?.serverName).toBe("qortex");
+    expect(store.capabilities?.tools).toContain("qortex_vector_query");
+    expect(await store.listIndexes()).toEqual(["docs"]);
+  });
+
+  it("ranks vectors by cosine similarity", async () => {
+    const results = await store.similaritySearchVectorWithScore(embed("jwt token"), 2);
+
+    expect(results.map(([doc]) => doc.id)).toEqual(["d-jwt", "d-oauth"]);
+    expect(results[0][0].pageContent).toBe("jwt token signing");
+    expect(results[0][1]).toBeGreaterThan(results[1][1]);
+  });
+
+  it("applies metadata filters", async () => {
+    const results = await store.similaritySearchVectorWithScore(embed("token"), 3, {
+      year: { $gte: 2015 },
+    });
+    expect(results.map(([doc]) => doc.id)).toEqual(["d-jwt", "d-rate"]);
+  });
+
+  it("gets and deletes stored documents", async () => {
+    await store.delete({ ids: ["d-rate"] });
+
+    const { documents, missing } = await store.getByIds(["d-oauth", "d-rate"]);
+    expect(documents.map((d) => d.pageContent)).toEqual(["oauth token flow"]);
+    expect(missing).toEqual(["d-rate"]);
+  });
+
+  it("runs text-level search with linked rules", async () => {
+    const results = await store.similaritySearch("oauth", 1);
+
+    expect(results[0].id).toBe("d-oauth");
+    expect(results[0].metadata.node_id).toBe("sec:oauth");
+    expect(results[0].metadata.query_id).toMatch(/^q-/);
+    expect(results[0].metadata.rules).toEqual([
+      { id: "rule:pkce", text: "Use PKCE", relevance: 1 },
+    ]);
+  });
+
+  it("explores the graph to the requested depth", async () => {
+    const shallow = await store.explore("sec:oauth");
+    expect(shallow!.neighbors.map((n) => n.id)).toEqual(["sec:jwt"]);
+    expect(shallow!.rules.map((r) => r.id)).toEqual(["rule:pkce"]);
+
+    const deep = await store.explore("sec:oauth", 2);
+    expect(deep!.neighbors.map((n) => n.id)).toEqual(["sec:jwt", "sec:jwk"]);
+    expect(deep!.edges).toHaveLength(2);
+
+    expect(await store.explore("sec:missing")).toBeNull();
+  });
+
+  it("serves the graph retriever", async () => {
+    const retriever = new QortexGraphRetriever({ vectorStore: store, k: 1, depth: 2 });
+
+    const found = await retriever.invoke("oauth");
+    expect(found.map((d) => [d.metadata.qortex_kind, d.id])).toEqual([
+      ["result", "d-oauth"],
+      ["concept", "sec:jwt"],
+      ["concept", "sec:jwk"],
+      ["rule", "rule:rotate"],
+    ]);
+  });
+
+  it("filters rules", async () => {
+    const { rules } = await store.getRules({ categories: ["auth"] });
+    expect(rules.map((r) => r.id)).toEqual(["rule:pkce"]);
+  });
+
+  it("describes indexes with the store's domain counts", async () => {
+    await store.createIndex({ indexName: "scratch", dimension: 2, metric: "euclidean" });
+
+    expect(await store.describeIndex()).toEqual({
+      name: "docs",
+      dimension: VOCABULARY.length,
+      metric: "cosine",
+      vectorCount: 3,
+      sizeBytes: 3 * VOCABULARY.length * 4,
+      domain: { name: "security", description: null, concept_count: 3, edge_count: 2, rule_count: 2 },
+    });
+    expect(await store.getIndexStats()).toEqual([
+      await store.describeIndex(),
+      { name: "scratch", dimension: 2, metric: "euclidean", vectorCount: 0, sizeBytes: 0, domain: null },
+    ]);
+  });
+
+  it("applies feedback to later queries", async () => {
+    const before = await store.similaritySearchWithScore("token", 2);
+    expect(before.map(([doc]) => doc.id)).toEqual(["d-oauth", "d-jwt"]);
+
+    await store.feedback({ "d-jwt": "accepted", "d-oauth": "rejected" });
+
+    const after = await store.similaritySearchWithScore("token", 2);
+    expect(after.map(([doc]) => doc.id)).toEqual(["d-jwt", "d-oauth"]);
+    expect(server.feedbackEvents).toEqual([
+      {
+        queryId: before[0][0].metadata.query_id,
+        outcomes: { "d-jwt": "accepted", "d-oauth": "rejected" },
+        source: "langchain",
+      },
+    ]);
+  });
+
+  it("reports errors the way qortex does", async () => {
+    await expect(
+      store.feedback({ "d-jwt": "accepted" }, { queryId: "q-unknown" }),
+    ).rejects.toThrow(QortexServerError);
+    await expect(
+      store.similaritySearchVectorWithScore([1, 2], 1),
+    ).rejects.toThrow(QortexDimensionMismatchError);
+
+    await store.deleteIndex();
+    await expect(store.getByIds(["d-oauth"])).rejects.toThrow(QortexIndexNotFoundError);
+  });
+});
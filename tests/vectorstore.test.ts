@@ -6,28 +6,79 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { mkdtempSync, readFileSync, existsSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { Document } from "@langchain/core/documents";
+import { index, RecordManager } from "@langchain/core/indexing";
+import { load } from "@langchain/core/load";
 import type { EmbeddingsInterface } from "@langchain/core/embeddings";
 import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { QortexVectorStore } from "../src/vectorstore.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import {
+  QortexVectorStore,
+  type QortexVectorStoreConfig,
+} from "../src/vectorstore.js";
+import { withQueryScope, withRequestOptions } from "../src/scope.js";
+import { qortexImportMap } from "../src/load.js";
+import { QortexLruCache } from "../src/cache.js";
+import { QortexMemoryEmbeddingStore } from "../src/embedding-cache.js";
+import {
+  QortexAbortError,
+  QortexConnectionError,
+  QortexDimensionMismatchError,
+  QortexError,
+  QortexIndexNotFoundError,
+  QortexIngestError,
+  QortexServerError,
+  QortexToolNotFoundError,
+  QortexValidationError,
+} from "../src/errors.js";
+import { createMockClient, mockResponse } from "./helpers.js";
 
 // ---------------------------------------------------------------------------
 // Mock helpers
 // ---------------------------------------------------------------------------
 
-function createMockClient(): {
-  client: Client;
-  callTool: ReturnType<typeof vi.fn>;
-} {
-  const callTool = vi.fn();
-  const client = { callTool } as unknown as Client;
-  return { client, callTool };
-}
-
-function mockResponse(data: unknown) {
-  return {
-    content: [{ type: "text", text: JSON.stringify(data) }],
-  };
+/** Minimal in-memory RecordManager with a monotonic clock. */
+class MemoryRecordManager extends RecordManager {
+  lc_namespace = ["tests"];
+  private clock = 0;
+  records = new Map<string, { updatedAt: number; groupId: string | null }>();
+
+  async createSchema() {}
+
+  async getTime() {
+    return ++this.clock;
+  }
+
+  async update(
+    keys: string[],
+    options: { timeAtLeast?: number; groupIds?: (string | null)[] } = {},
+  ) {
+    const updatedAt = await this.getTime();
+    keys.forEach((key, i) =>
+      this.records.set(key, { updatedAt, groupId: options.groupIds?.[i] ?? null }),
+    );
+  }
+
+  async exists(keys: string[]) {
+    return keys.map((key) => this.records.has(key));
+  }
+
+  async listKeys(options: { before?: number; groupIds?: (string | null)[] } = {}) {
+    return [...this.records.entries()]
+      .filter(
+        ([, r]) =>
+          (options.before === undefined || r.updatedAt < options.before) &&
+          (!options.groupIds || options.groupIds.includes(r.groupId)),
+      )
+      .map(([key]) => key);
+  }
+
+  async deleteKeys(keys: string[]) {
+    keys.forEach((key) => this.records.delete(key));
+  }
 }
 
 function createFakeEmbeddings(): EmbeddingsInterface {
@@ -139,6 +190,85 @@ describe("QortexVectorStore", () => {
     });
   });
 
+  describe("describeIndex", () => {
+    const described = {
+      index_name: "test-index",
+      dimension: 4,
+      metric: "cosine",
+      count: 12,
+      size_bytes: null,
+    };
+    const security = {
+      name: "security",
+      description: "Auth",
+      concept_count: 5,
+      edge_count: 4,
+      rule_count: 2,
+    };
+
+    it("returns index stats with the store's domain", async () => {
+      callTool
+        .mockResolvedValueOnce(mockResponse({ domains: [{ ...security, name: "infra" }, security] }))
+        .mockResolvedValueOnce(mockResponse(described));
+
+      expect(await store.describeIndex()).toEqual({
+        name: "test-index",
+        dimension: 4,
+        metric: "cosine",
+        vectorCount: 12,
+        sizeBytes: null,
+        domain: security,
+      });
+      expect(callTool).toHaveBeenCalledWith({ name: "qortex_domains", arguments: {} });
+      expect(callTool).toHaveBeenCalledWith({
+        name: "qortex_vector_describe_index",
+        arguments: { index_name: "test-index" },
+      });
+    });
+
+    it("leaves out the domain for other indexes", async () => {
+      callTool.mockResolvedValueOnce(mockResponse({ ...described, index_name: "other" }));
+
+      expect((await store.describeIndex("other")).domain).toBeNull();
+      expect(callTool).toHaveBeenCalledTimes(1);
+    });
+
+    it("leaves out the domain when the server has no qortex_domains", async () => {
+      callTool
+        .mockResolvedValueOnce(mockResponse({ error: "Unknown tool: qortex_domains" }))
+        .mockResolvedValueOnce(mockResponse(described));
+
+      expect((await store.describeIndex()).domain).toBeNull();
+    });
+
+    it("learns the dimension for client-side checks", async () => {
+      callTool
+        .mockResolvedValueOnce(mockResponse({ domains: [] }))
+        .mockResolvedValueOnce(mockResponse(described));
+      await store.describeIndex();
+      callTool.mockClear();
+
+      await expect(
+        store.addVectors([[1, 0]], [new Document({ pageContent: "test" })]),
+      ).rejects.toThrow(QortexDimensionMismatchError);
+      expect(callTool).not.toHaveBeenCalled();
+    });
+
+    it("describes every index with getIndexStats", async () => {
+      callTool.mockImplementation(async ({ name, arguments: args }) => {
+        if (name === "qortex_vector_list_indexes") return mockResponse({ indexes: ["test-index", "code"] });
+        if (name === "qortex_domains") return mockResponse({ domains: [security] });
+        return mockResponse({ ...described, index_name: args.index_name });
+      });
+
+      const stats = await store.getIndexStats();
+      expect(stats.map((s) => [s.name, s.domain?.name ?? null])).toEqual([
+        ["test-index", "security"],
+        ["code", null],
+      ]);
+    });
+  });
+
   // -----------------------------------------------------------------------
   // addVectors
   // -----------------------------------------------------------------------
@@ -192,6 +322,31 @@ describe("QortexVectorStore", () => {
       );
     });
 
+    it("keeps ids aligned when only some documents have one", async () => {
+      callTool.mockResolvedValue(mockResponse({ ids: ["a", "b", "c"] }));
+
+      const docs = [
+        new Document({ pageContent: "one", id: "doc-1" }),
+        new Document({ pageContent: "two" }),
+        new Document({ pageContent: "three", id: "doc-3" }),
+      ];
+      await store.addVectors([[1], [2], [3]], docs);
+
+      const { ids } = callTool.mock.calls[0][0].arguments;
+      expect(ids).toHaveLength(3);
+      expect(ids[0]).toBe("doc-1");
+      expect(ids[1]).toMatch(/^[0-9a-f-]{36}$/);
+      expect(ids[2]).toBe("doc-3");
+    });
+
+    it("rejects an ids option that does not match the documents", async () => {
+      const docs = [new Document({ pageContent: "one" })];
+      await expect(
+        store.addVectors([[1]], docs, { ids: ["a", "b"] }),
+      ).rejects.toThrow(QortexValidationError);
+      expect(callTool).not.toHaveBeenCalled();
+    });
+
     it("throws on error response", async () => {
       callTool.mockResolvedValue(
         mockResponse({ error: "Dimension mismatch" }),
@@ -200,8 +355,185 @@ describe("QortexVectorStore", () => {
       const docs = [new Document({ pageContent: "test" })];
       await expect(
         store.addVectors([[1, 0]], docs),
-      ).rejects.toThrow("Dimension mismatch");
+      ).rejects.toThrow(QortexDimensionMismatchError);
+    });
+
+    it("rejects vectors of mixed dimensions before calling the server", async () => {
+      const docs = [new Document({ pageContent: "one" }), new Document({ pageContent: "two" })];
+      await expect(store.addVectors([[1, 0], [1, 0, 0]], docs)).rejects.toThrow(
+        "Vectors have mixed dimensions (2 and 3)",
+      );
+      expect(callTool).not.toHaveBeenCalled();
+    });
+
+    it("rejects vectors that do not match the index dimension", async () => {
+      callTool.mockResolvedValue(mockResponse({ index_name: "test-index", dimension: 4 }));
+      await store.createIndex({ dimension: 4 });
+      callTool.mockClear();
+
+      const docs = [new Document({ pageContent: "test" })];
+      const err = await store.addVectors([[1, 0]], docs).catch((e) => e);
+      expect(err).toBeInstanceOf(QortexDimensionMismatchError);
+      expect(err.message).toBe(
+        "Vector dimension 2 does not match index 'test-index' dimension 4",
+      );
+      expect(callTool).not.toHaveBeenCalled();
+    });
+
+    it("takes the index dimension from the server, which keeps an existing index", async () => {
+      callTool.mockResolvedValue(mockResponse({ index_name: "test-index", dimension: 4 }));
+      await store.createIndex({ dimension: 3 });
+      callTool.mockClear();
+
+      const docs = [new Document({ pageContent: "test" })];
+      await expect(store.addVectors([[1, 0, 0]], docs)).rejects.toThrow(
+        "Vector dimension 3 does not match index 'test-index' dimension 4",
+      );
+      expect(callTool).not.toHaveBeenCalled();
+    });
+
+    it("describes the index when the create response has no dimension", async () => {
+      callTool
+        .mockResolvedValueOnce(mockResponse({ status: "created" }))
+        .mockResolvedValueOnce(
+          mockResponse({ index_name: "test-index", dimension: 4, metric: "cosine", count: 0, size_bytes: 0 }),
+        );
+      await store.createIndex({ dimension: 3 });
+
+      expect(callTool.mock.calls[1][0].name).toBe("qortex_vector_describe_index");
+      await expect(
+        store.addVectors([[1, 0, 0]], [new Document({ pageContent: "test" })]),
+      ).rejects.toThrow(QortexDimensionMismatchError);
+    });
+
+    it("remembers the dimension of the first accepted write", async () => {
+      callTool.mockResolvedValue(mockResponse({ ids: ["a"] }));
+      const docs = [new Document({ pageContent: "test" })];
+      await store.addVectors([[1, 0, 0, 0]], docs);
+
+      await expect(store.addVectors([[1, 0]], docs)).rejects.toThrow(
+        QortexDimensionMismatchError,
+      );
+      expect(callTool).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("autoCreateIndex", () => {
+    let auto: QortexVectorStore;
+    const docs = [new Document({ pageContent: "test" })];
+
+    beforeEach(() => {
+      auto = new QortexVectorStore(embeddings, {
+        mcpClient: { callTool } as unknown as Client,
+        indexName: "test-index",
+        metric: "dotproduct",
+        autoCreateIndex: true,
+      });
     });
+
+    /** A server with `indexes`, each of dimension `dimension`. */
+    function respond(indexes: string[], dimension = 3) {
+      callTool.mockImplementation(async ({ name, arguments: args }) => {
+        if (name === "qortex_vector_list_indexes") return mockResponse({ indexes });
+        if (name === "qortex_vector_create_index") {
+          return mockResponse({ index_name: args.index_name, dimension: args.dimension });
+        }
+        if (name === "qortex_vector_describe_index") {
+          return mockResponse({
+            index_name: args.index_name,
+            dimension,
+            metric: "cosine",
+            count: 1,
+            size_bytes: dimension * 4,
+          });
+        }
+        return mockResponse({ ids: ["a"] });
+      });
+    }
+
+    it("creates a missing index with the inferred dimension and configured metric", async () => {
+      respond(["other"]);
+      await auto.addVectors([[1, 0, 0]], docs);
+      await auto.addVectors([[0, 1, 0]], docs);
+
+      expect(callTool.mock.calls.map(([params]) => params.name)).toEqual([
+        "qortex_vector_list_indexes",
+        "qortex_vector_create_index",
+        "qortex_vector_upsert",
+        "qortex_vector_upsert",
+      ]);
+      expect(callTool.mock.calls[1][0].arguments).toEqual({
+        index_name: "test-index",
+        dimension: 3,
+        metric: "dotproduct",
+      });
+    });
+
+    it("uses an existing index as is", async () => {
+      respond(["test-index"]);
+      await auto.addVectors([[1, 0, 0]], docs);
+
+      expect(callTool.mock.calls.map(([params]) => params.name)).toEqual([
+        "qortex_vector_list_indexes",
+        "qortex_vector_describe_index",
+        "qortex_vector_upsert",
+      ]);
+    });
+
+    it("rejects a first write that does not match an existing index", async () => {
+      respond(["test-index"], 4);
+
+      await expect(auto.addVectors([[1, 0, 0]], docs)).rejects.toThrow(
+        "Vector dimension 3 does not match index 'test-index' dimension 4",
+      );
+      expect(callsNamed("qortex_vector_upsert")).toBe(0);
+    });
+
+    it("checks once for concurrent first writes", async () => {
+      respond([]);
+      await auto.addDocuments(
+        [new Document({ pageContent: "one" }), new Document({ pageContent: "two" })],
+        { batchSize: 1, concurrency: 2 },
+      );
+
+      expect(callsNamed("qortex_vector_list_indexes")).toBe(1);
+      expect(callsNamed("qortex_vector_create_index")).toBe(1);
+      expect(callsNamed("qortex_vector_upsert")).toBe(2);
+    });
+
+    it("rejects later writes with another dimension", async () => {
+      respond([]);
+      await auto.addVectors([[1, 0, 0]], docs);
+
+      await expect(auto.addVectors([[1, 0]], docs)).rejects.toThrow(
+        "Vector dimension 2 does not match index 'test-index' dimension 3",
+      );
+      expect(callsNamed("qortex_vector_upsert")).toBe(1);
+    });
+
+    it("checks again after the index is deleted", async () => {
+      respond([]);
+      await auto.addVectors([[1, 0, 0]], docs);
+      await auto.deleteIndex();
+      await auto.addVectors([[1, 0]], docs);
+
+      expect(callsNamed("qortex_vector_create_index")).toBe(2);
+      expect(callTool.mock.calls.at(-2)![0].arguments.dimension).toBe(2);
+    });
+
+    it("retries the check after it fails", async () => {
+      respond([]);
+      callTool.mockRejectedValueOnce(new Error("socket hang up"));
+
+      await expect(auto.addVectors([[1, 0, 0]], docs)).rejects.toThrow(QortexConnectionError);
+      await auto.addVectors([[1, 0, 0]], docs);
+      expect(callsNamed("qortex_vector_list_indexes")).toBe(2);
+      expect(callsNamed("qortex_vector_create_index")).toBe(1);
+    });
+
+    function callsNamed(name: string): number {
+      return callTool.mock.calls.filter(([params]) => params.name === name).length;
+    }
   });
 
   // -----------------------------------------------------------------------
@@ -228,6 +560,408 @@ describe("QortexVectorStore", () => {
       ]);
       expect(callTool).toHaveBeenCalledTimes(1);
     });
+
+    it("assigns ids so failures can be reported", async () => {
+      callTool.mockImplementation(async ({ arguments: args }) =>
+        mockResponse({ ids: args.ids }),
+      );
+
+      const ids = await store.addDocuments([new Document({ pageContent: "a" })]);
+
+      expect(ids).toHaveLength(1);
+      expect(callTool.mock.calls[0][0].arguments.ids).toEqual(ids);
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Batched ingestion
+  // -----------------------------------------------------------------------
+
+  describe("ingest", () => {
+    const docs = Array.from(
+      { length: 5 },
+      (_, i) => new Document({ pageContent: `chunk ${i}`, id: `c${i}` }),
+    );
+
+    beforeEach(() => {
+      callTool.mockImplementation(async ({ arguments: args }) =>
+        mockResponse({ ids: args.ids }),
+      );
+    });
+
+    it("embeds and upserts in batches", async () => {
+      const ids = await store.addDocuments(docs, { batchSize: 2 });
+
+      expect(ids).toEqual(["c0", "c1", "c2", "c3", "c4"]);
+      expect(embeddings.embedDocuments).toHaveBeenCalledTimes(3);
+      expect(embeddings.embedDocuments).toHaveBeenNthCalledWith(3, ["chunk 4"]);
+      expect(callTool.mock.calls.map((c) => c[0].arguments.ids)).toEqual([
+        ["c0", "c1"],
+        ["c2", "c3"],
+        ["c4"],
+      ]);
+    });
+
+    it("runs up to `concurrency` batches at once", async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      callTool.mockImplementation(async ({ arguments: args }) => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return mockResponse({ ids: args.ids });
+      });
+
+      const summary = await store.ingest(docs, { batchSize: 1, concurrency: 3 });
+
+      expect(maxInFlight).toBe(3);
+      expect(summary.ids).toEqual(["c0", "c1", "c2", "c3", "c4"]);
+    });
+
+    it("reports progress for embedded and stored documents", async () => {
+      const onProgress = vi.fn();
+
+      await store.ingest(docs, { batchSize: 3, onProgress });
+
+      expect(onProgress.mock.calls.map((c) => c[0])).toEqual([
+        { total: 5, embedded: 3, stored: 0, failed: 0 },
+        { total: 5, embedded: 3, stored: 3, failed: 0 },
+        { total: 5, embedded: 5, stored: 3, failed: 0 },
+        { total: 5, embedded: 5, stored: 5, failed: 0 },
+      ]);
+    });
+
+    it("retries a failed batch without re-embedding it", async () => {
+      callTool
+        .mockResolvedValueOnce(mockResponse({ ids: ["c0", "c1"] }))
+        .mockResolvedValueOnce({
+          content: [{ type: "text", text: "worker crashed" }],
+          isError: true,
+        });
+
+      const summary = await store.ingest(docs, { batchSize: 2, backoff: { initialDelayMs: 1 } });
+
+      expect(summary.failedIds).toEqual([]);
+      expect(summary.stored).toBe(5);
+      expect(callTool).toHaveBeenCalledTimes(4);
+      expect(embeddings.embedDocuments).toHaveBeenCalledTimes(3);
+    });
+
+    it("lists failed ids once retries are exhausted", async () => {
+      callTool.mockImplementation(async ({ arguments: args }) =>
+        args.ids.includes("c2")
+          ? { content: [{ type: "text", text: "worker crashed" }], isError: true }
+          : mockResponse({ ids: args.ids }),
+      );
+
+      const summary = await store.ingest(docs, {
+        batchSize: 2,
+        retries: 1,
+        backoff: { initialDelayMs: 1 },
+      });
+
+      expect(summary).toMatchObject({
+        total: 5,
+        embedded: 5,
+        stored: 3,
+        failed: 2,
+        ids: ["c0", "c1", "c4"],
+        failedIds: ["c2", "c3"],
+      });
+      expect(summary.errors[0]).toBeInstanceOf(QortexServerError);
+      // 3 batches + 1 retry
+      expect(callTool).toHaveBeenCalledTimes(4);
+    });
+
+    it("backs off exponentially between attempts", async () => {
+      vi.useFakeTimers();
+      callTool.mockResolvedValue({
+        content: [{ type: "text", text: "worker crashed" }],
+        isError: true,
+      });
+
+      const ingesting = store.ingest(docs.slice(0, 1), {
+        retries: 3,
+        backoff: { initialDelayMs: 100, multiplier: 3, maxDelayMs: 500 },
+      });
+      const attempts: number[] = [];
+      for (const ms of [0, 99, 1, 299, 1, 499, 1]) {
+        await vi.advanceTimersByTimeAsync(ms);
+        attempts.push(callTool.mock.calls.length);
+      }
+
+      // Delays of 100, 300 and then 500 (capped from 900) ms
+      expect(attempts).toEqual([1, 1, 2, 2, 3, 3, 4]);
+      expect((await ingesting).failedIds).toEqual(["c0"]);
+      vi.useRealTimers();
+    });
+
+    it("stops waiting to retry when aborted", async () => {
+      callTool.mockResolvedValue({
+        content: [{ type: "text", text: "worker crashed" }],
+        isError: true,
+      });
+      const controller = new AbortController();
+
+      const ingesting = store.ingest(docs.slice(0, 1), {
+        backoff: { initialDelayMs: 60_000 },
+        signal: controller.signal,
+      });
+      await vi.waitFor(() => expect(callTool).toHaveBeenCalledTimes(1));
+      controller.abort();
+
+      await expect(ingesting).rejects.toThrow(QortexAbortError);
+      expect(callTool).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not retry errors that cannot succeed", async () => {
+      callTool.mockResolvedValue(mockResponse({ error: "Dimension mismatch: expected 384" }));
+
+      const summary = await store.ingest(docs.slice(0, 1));
+
+      expect(summary.failedIds).toEqual(["c0"]);
+      expect(callTool).toHaveBeenCalledTimes(1);
+    });
+
+    it("addDocuments throws with the summary when batches fail", async () => {
+      callTool.mockResolvedValue(mockResponse({ error: "Dimension mismatch" }));
+
+      const err = await store.addDocuments(docs, { batchSize: 5 }).catch((e) => e);
+
+      expect(err).toBeInstanceOf(QortexIngestError);
+      expect(err.summary.failedIds).toEqual(["c0", "c1", "c2", "c3", "c4"]);
+      expect(err.cause).toBeInstanceOf(QortexDimensionMismatchError);
+    });
+
+    it("uses ingestion defaults from the store config", async () => {
+      const batched = new QortexVectorStore(embeddings, {
+        mcpClient: { callTool } as unknown as Client,
+        ingestion: { batchSize: 2 },
+      });
+
+      await batched.addDocuments(docs);
+      expect(callTool).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // delete
+  // -----------------------------------------------------------------------
+
+  describe("delete", () => {
+    it("deletes vectors by id, then their graph nodes", async () => {
+      callTool
+        .mockResolvedValueOnce(mockResponse({ deleted: ["d1", "d2"] }))
+        .mockResolvedValueOnce(
+          mockResponse({ nodes_deleted: 2, edges_deleted: 3 }),
+        );
+
+      await store.delete({ ids: ["d1", "d2"] });
+
+      expect(callTool).toHaveBeenNthCalledWith(1, {
+        name: "qortex_vector_delete",
+        arguments: { index_name: "test-index", ids: ["d1", "d2"], filter: undefined },
+      });
+      expect(callTool).toHaveBeenNthCalledWith(2, {
+        name: "qortex_graph_delete",
+        arguments: { source_ids: ["d1", "d2"], domain: "security" },
+      });
+    });
+
+    it("deletes by metadata filter", async () => {
+      callTool
+        .mockResolvedValueOnce(mockResponse({ deleted: ["d3"] }))
+        .mockResolvedValueOnce(
+          mockResponse({ nodes_deleted: 1, edges_deleted: 0 }),
+        );
+
+      await store.delete({ filter: { source: "old-handbook" } });
+
+      expect(callTool).toHaveBeenNthCalledWith(1, {
+        name: "qortex_vector_delete",
+        arguments: {
+          index_name: "test-index",
+          ids: undefined,
+          filter: { source: "old-handbook" },
+        },
+      });
+      expect(callTool).toHaveBeenNthCalledWith(2, {
+        name: "qortex_graph_delete",
+        arguments: { source_ids: ["d3"], domain: "security" },
+      });
+    });
+
+    it("skips the graph step when nothing was deleted", async () => {
+      callTool.mockResolvedValueOnce(mockResponse({ deleted: [] }));
+
+      await store.delete({ ids: ["missing"] });
+      expect(callTool).toHaveBeenCalledTimes(1);
+    });
+
+    it("skips the graph step when graph is false", async () => {
+      callTool.mockResolvedValueOnce(mockResponse({ deleted: ["d1"] }));
+
+      await store.delete({ ids: ["d1"], graph: false });
+      expect(callTool).toHaveBeenCalledTimes(1);
+    });
+
+    it("skips the graph step when the server lacks qortex_graph_delete", async () => {
+      const client = {
+        callTool,
+        listTools: async () => ({
+          tools: [{ name: "qortex_vector_delete" }],
+        }),
+      } as unknown as Client;
+      const vectorOnly = new QortexVectorStore(embeddings, { mcpClient: client });
+      callTool.mockResolvedValueOnce(mockResponse({ deleted: ["d1"] }));
+
+      await vectorOnly.delete({ ids: ["d1"] });
+      expect(callTool).toHaveBeenCalledTimes(1);
+    });
+
+    it("is a no-op for an empty id list", async () => {
+      await store.delete({ ids: [] });
+      expect(callTool).not.toHaveBeenCalled();
+    });
+
+    it("rejects filters the server cannot evaluate", async () => {
+      await expect(
+        store.delete({ filter: { $or: [{ source: "a" }, { source: "b" }] } }),
+      ).rejects.toThrow(QortexValidationError);
+      expect(callTool).not.toHaveBeenCalled();
+    });
+
+    it("requires ids or filter", async () => {
+      await expect(store.delete()).rejects.toThrow(QortexValidationError);
+    });
+
+    it("rejects filters without clauses instead of deleting everything", async () => {
+      await expect(store.delete({ filter: {} })).rejects.toThrow(
+        "delete() filter has no clauses",
+      );
+      await expect(store.delete({ filter: { source: undefined } })).rejects.toThrow(
+        QortexValidationError,
+      );
+      expect(callTool).not.toHaveBeenCalled();
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // LangChain indexing API
+  // -----------------------------------------------------------------------
+
+  describe("indexing API", () => {
+    let stored: Map<string, Record<string, unknown>>;
+
+    beforeEach(() => {
+      // Stateful stand-in for the vector index
+      stored = new Map();
+      callTool.mockImplementation(async ({ name, arguments: args }) => {
+        if (name === "qortex_vector_upsert") {
+          args.ids.forEach((id: string, i: number) => stored.set(id, args.metadata[i]));
+          return mockResponse({ ids: args.ids });
+        }
+        if (name === "qortex_vector_delete") {
+          const deleted = args.ids.filter((id: string) => stored.delete(id));
+          return mockResponse({ deleted });
+        }
+        if (name === "qortex_graph_delete") {
+          return mockResponse({ nodes_deleted: args.source_ids.length, edges_deleted: 0 });
+        }
+        throw new Error(`unexpected tool ${name}`);
+      });
+    });
+
+    const contents = () => [...stored.values()].map((m) => m.text).sort();
+
+    it("re-indexing replaces changed content instead of duplicating it", async () => {
+      const recordManager = new MemoryRecordManager();
+      const options = { cleanup: "incremental" as const, sourceIdKey: "source" };
+
+      const first = await index({
+        docsSource: [
+          new Document({ pageContent: "OAuth2 v1", metadata: { source: "auth.md" } }),
+          new Document({ pageContent: "Rate limits", metadata: { source: "infra.md" } }),
+        ],
+        recordManager,
+        vectorStore: store,
+        options,
+      });
+      expect(first).toMatchObject({ numAdded: 2, numDeleted: 0 });
+
+      const second = await index({
+        docsSource: [
+          new Document({ pageContent: "OAuth2 v2", metadata: { source: "auth.md" } }),
+          new Document({ pageContent: "Rate limits", metadata: { source: "infra.md" } }),
+        ],
+        recordManager,
+        vectorStore: store,
+        options,
+      });
+
+      expect(second).toMatchObject({ numAdded: 1, numSkipped: 1, numDeleted: 1 });
+      expect(contents()).toEqual(["OAuth2 v2", "Rate limits"]);
+      expect([...stored.keys()].sort()).toEqual([...recordManager.records.keys()].sort());
+      expect(callTool).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "qortex_graph_delete" }),
+      );
+    });
+
+    it("full cleanup removes documents missing from the source", async () => {
+      const recordManager = new MemoryRecordManager();
+
+      await index({
+        docsSource: [
+          new Document({ pageContent: "keep", metadata: { source: "a.md" } }),
+          new Document({ pageContent: "drop", metadata: { source: "b.md" } }),
+        ],
+        recordManager,
+        vectorStore: store,
+        options: { cleanup: "full" },
+      });
+      const result = await index({
+        docsSource: [new Document({ pageContent: "keep", metadata: { source: "a.md" } })],
+        recordManager,
+        vectorStore: store,
+        options: { cleanup: "full" },
+      });
+
+      expect(result).toMatchObject({ numAdded: 0, numSkipped: 1, numDeleted: 1 });
+      expect(contents()).toEqual(["keep"]);
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // getByIds
+  // -----------------------------------------------------------------------
+
+  describe("getByIds", () => {
+    it("restores documents in request order and reports missing ids", async () => {
+      callTool.mockResolvedValue(
+        mockResponse({
+          results: [
+            { id: "v2", metadata: { text: "JWT tokens", source: "rfc7519" } },
+            { id: "v1", metadata: { text: "OAuth2 auth", source: "rfc6749" } },
+          ],
+        }),
+      );
+
+      const { documents, missing } = await store.getByIds(["v1", "gone", "v2"]);
+
+      expect(callTool).toHaveBeenCalledWith({
+        name: "qortex_vector_get",
+        arguments: { index_name: "test-index", ids: ["v1", "gone", "v2"] },
+      });
+      expect(documents.map((d) => d.id)).toEqual(["v1", "v2"]);
+      expect(documents[0].pageContent).toBe("OAuth2 auth");
+      expect(documents[0].metadata).toEqual({ source: "rfc6749" });
+      expect(missing).toEqual(["gone"]);
+    });
+
+    it("skips the call for an empty id list", async () => {
+      expect(await store.getByIds([])).toEqual({ documents: [], missing: [] });
+      expect(callTool).not.toHaveBeenCalled();
+    });
   });
 
   // -----------------------------------------------------------------------
@@ -276,6 +1010,33 @@ describe("QortexVectorStore", () => {
       );
     });
 
+    it("applies clauses the server cannot express on the client", async () => {
+      callTool.mockResolvedValue(
+        mockResponse({
+          results: [
+            { id: "v1", score: 0.9, metadata: { text: "a", source: "docs", tag: "auth" } },
+            { id: "v2", score: 0.8, metadata: { text: "b", source: "docs", tag: "infra" } },
+            { id: "v3", score: 0.7, metadata: { text: "c", source: "docs", tag: "jwt" } },
+          ],
+        }),
+      );
+
+      const results = await store.similaritySearchVectorWithScore([1, 0, 0, 0], 1, {
+        source: "docs",
+        $or: [{ tag: "jwt" }, { tag: "infra" }],
+      });
+
+      expect(callTool).toHaveBeenCalledWith(
+        expect.objectContaining({
+          arguments: expect.objectContaining({
+            top_k: 4,
+            filter: { source: "docs" },
+          }),
+        }),
+      );
+      expect(results.map(([doc]) => doc.id)).toEqual(["v2"]);
+    });
+
     it("throws on error", async () => {
       callTool.mockResolvedValue(
         mockResponse({ error: "Index not found" }),
@@ -283,7 +1044,7 @@ describe("QortexVectorStore", () => {
 
       await expect(
         store.similaritySearchVectorWithScore([1, 0, 0, 0], 5),
-      ).rejects.toThrow("Index not found");
+      ).rejects.toThrow(QortexIndexNotFoundError);
     });
   });
 
@@ -339,6 +1100,40 @@ describe("QortexVectorStore", () => {
       await store.similaritySearch("test");
       expect(store.lastQueryId).toBe("q-xyz");
     });
+
+    it("adds the query_id to each document", async () => {
+      callTool.mockResolvedValue(
+        mockResponse({
+          items: [
+            { id: "i-1", content: "OAuth2", score: 0.9, domain: "security", node_id: "sec:oauth", metadata: {} },
+          ],
+          query_id: "q-xyz",
+          rules: [],
+        }),
+      );
+
+      const [doc] = await store.similaritySearch("test");
+      expect(doc.metadata.query_id).toBe("q-xyz");
+    });
+  });
+
+  describe("similaritySearchWithQueryId", () => {
+    it("returns the results together with the query id", async () => {
+      callTool.mockResolvedValue(
+        mockResponse({
+          items: [
+            { id: "i-1", content: "OAuth2", score: 0.9, domain: "security", node_id: "sec:oauth", metadata: {} },
+          ],
+          query_id: "q-xyz",
+          rules: [],
+        }),
+      );
+
+      const { results, queryId } = await store.similaritySearchWithQueryId("test", 1);
+      expect(queryId).toBe("q-xyz");
+      expect(results).toHaveLength(1);
+      expect(results[0][1]).toBe(0.9);
+    });
   });
 
   // -----------------------------------------------------------------------
@@ -406,6 +1201,31 @@ describe("QortexVectorStore", () => {
         }),
       );
     });
+
+    it("filters results on metadata instead of ignoring the clause", async () => {
+      callTool.mockResolvedValue(
+        mockResponse({
+          items: [
+            { id: "i-1", content: "OAuth2", score: 0.9, domain: "security", node_id: "n1", metadata: { source: "rfc6749" } },
+            { id: "i-2", content: "JWT", score: 0.8, domain: "security", node_id: "n2", metadata: { source: "rfc7519" } },
+          ],
+          query_id: "q-1",
+          rules: [],
+        }),
+      );
+
+      const results = await store.similaritySearchWithScore("auth", 2, {
+        domains: ["security"],
+        source: { $ne: "rfc6749" },
+      });
+
+      expect(callTool).toHaveBeenCalledWith(
+        expect.objectContaining({
+          arguments: expect.objectContaining({ domains: ["security"], top_k: 8 }),
+        }),
+      );
+      expect(results.map(([doc]) => doc.id)).toEqual(["i-2"]);
+    });
   });
 
   // -----------------------------------------------------------------------
@@ -531,12 +1351,623 @@ describe("QortexVectorStore", () => {
       const result = await store.feedback({ "i-1": "accepted" });
       expect(result).toBeNull();
     });
+
+    it("uses an explicit queryId over the last query", async () => {
+      callTool.mockResolvedValueOnce(
+        mockResponse({ items: [], query_id: "q-last", rules: [] }),
+      );
+      await store.similaritySearch("auth");
+
+      callTool.mockResolvedValueOnce(
+        mockResponse({ status: "recorded", query_id: "q-old", outcome_count: 1, source: "langchain" }),
+      );
+      await store.feedback({ "i-1": "accepted" }, { queryId: "q-old" });
+
+      expect(callTool).toHaveBeenLastCalledWith({
+        name: "qortex_feedback",
+        arguments: { query_id: "q-old", outcomes: { "i-1": "accepted" }, source: "langchain" },
+      });
+    });
+
+    it("tracks the last query per query scope", async () => {
+      let nextId = 0;
+      callTool.mockImplementation(async ({ name, arguments: args }) =>
+        name === "qortex_query"
+          ? mockResponse({ items: [], query_id: `q-${++nextId}`, rules: [] })
+          : mockResponse({ status: "recorded", query_id: args.query_id, outcome_count: 1, source: "langchain" }),
+      );
+
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+
+      // Request A searches first, then waits while request B searches.
+      const requestA = withQueryScope(async () => {
+        await store.similaritySearch("first");
+        await gate;
+        return store.feedback({ "i-1": "accepted" });
+      });
+      const requestB = withQueryScope(async () => {
+        await store.similaritySearch("second");
+        release();
+        return store.feedback({ "i-2": "rejected" });
+      });
+
+      const [a, b] = await Promise.all([requestA, requestB]);
+      expect(a!.query_id).toBe("q-1");
+      expect(b!.query_id).toBe("q-2");
+      expect(store.lastQueryId).toBeNull();
+    });
+
+    it("ignores queries from other scopes", async () => {
+      callTool.mockResolvedValueOnce(
+        mockResponse({ items: [], query_id: "q-outside", rules: [] }),
+      );
+      await store.similaritySearch("auth");
+
+      const result = await withQueryScope(() => store.feedback({ "i-1": "accepted" }));
+      expect(result).toBeNull();
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // maxMarginalRelevanceSearch
+  // -----------------------------------------------------------------------
+
+  describe("feedback queue", () => {
+    const recorded = (args: { query_id: string; outcomes: object }) =>
+      mockResponse({
+        status: "recorded",
+        query_id: args.query_id,
+        outcome_count: Object.keys(args.outcomes).length,
+        source: "langchain",
+      });
+
+    function queuedStore(feedbackQueue: QortexVectorStoreConfig["feedbackQueue"]) {
+      return new QortexVectorStore(embeddings, {
+        mcpClient: { callTool } as unknown as Client,
+        feedbackQueue,
+      });
+    }
+
+    it("queues feedback while the server is unreachable", async () => {
+      const queued = queuedStore(true);
+      callTool.mockRejectedValue(new Error("socket hang up"));
+
+      const result = await queued.feedback({ "i-1": "accepted" }, { queryId: "q-1" });
+
+      expect(result).toBeNull();
+      expect(queued.pendingFeedback).toBe(1);
+    });
+
+    it("keeps only the latest outcome per query and document", async () => {
+      const queued = queuedStore(true);
+      callTool.mockRejectedValue(new Error("socket hang up"));
+
+      await queued.feedback({ "i-1": "accepted", "i-2": "accepted" }, { queryId: "q-1" });
+      await queued.feedback({ "i-1": "rejected" }, { queryId: "q-1" });
+      await queued.feedback({ "i-1": "partial" }, { queryId: "q-2" });
+      expect(queued.pendingFeedback).toBe(3);
+
+      callTool.mockReset();
+      callTool.mockImplementation(async ({ arguments: args }) => recorded(args));
+      const flushed = await queued.flushFeedback();
+
+      expect(flushed).toEqual({ sent: 3, dropped: 0, pending: 0 });
+      expect(callTool.mock.calls.map(([call]) => call.arguments)).toEqual([
+        { query_id: "q-1", outcomes: { "i-2": "accepted", "i-1": "rejected" }, source: "langchain" },
+        { query_id: "q-2", outcomes: { "i-1": "partial" }, source: "langchain" },
+      ]);
+    });
+
+    it("flushes in batches and stops at the first connection failure", async () => {
+      const queued = queuedStore({ batchSize: 2 });
+      callTool.mockRejectedValue(new Error("socket hang up"));
+      await queued.feedback({ a: "accepted", b: "accepted", c: "accepted" }, { queryId: "q-1" });
+
+      callTool.mockReset();
+      callTool
+        .mockImplementationOnce(async ({ arguments: args }) => recorded(args))
+        .mockRejectedValueOnce(new Error("socket hang up"));
+      expect(await queued.flushFeedback()).toEqual({ sent: 2, dropped: 0, pending: 1 });
+
+      callTool.mockImplementation(async ({ arguments: args }) => recorded(args));
+      expect(await queued.flushFeedback()).toEqual({ sent: 1, dropped: 0, pending: 0 });
+      expect(callTool.mock.calls.at(-1)![0].arguments.outcomes).toEqual({ c: "accepted" });
+    });
+
+    it("keeps outcomes queued for the same query while a flush is sending", async () => {
+      const queued = queuedStore(true);
+      callTool.mockRejectedValue(new Error("socket hang up"));
+      await queued.feedback({ a: "accepted" }, { queryId: "q-1" });
+
+      callTool.mockReset();
+      callTool
+        .mockImplementationOnce(async ({ arguments: args }) => {
+          // A concurrent feedback() for the same query that cannot be delivered
+          await queued.feedback({ a: "rejected", b: "accepted" }, { queryId: "q-1" });
+          return recorded(args);
+        })
+        .mockRejectedValueOnce(new Error("socket hang up"));
+      expect(await queued.flushFeedback()).toEqual({ sent: 1, dropped: 0, pending: 2 });
+
+      callTool.mockImplementation(async ({ arguments: args }) => recorded(args));
+      await queued.flushFeedback();
+      expect(callTool.mock.calls.at(-1)![0].arguments.outcomes).toEqual({
+        a: "rejected",
+        b: "accepted",
+      });
+    });
+
+    it("flushes when the client (re)connects", async () => {
+      const queued = queuedStore(true);
+      callTool.mockRejectedValue(new Error("socket hang up"));
+      await queued.feedback({ "i-1": "accepted" }, { queryId: "q-1" });
+
+      callTool.mockReset();
+      callTool.mockImplementation(async ({ arguments: args }) => recorded(args));
+      queued.client.emit("connected");
+
+      await vi.waitFor(() => expect(queued.pendingFeedback).toBe(0));
+      expect(callTool).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "qortex_feedback" }),
+      );
+    });
+
+    it("drops feedback the server rejects", async () => {
+      const queued = queuedStore(true);
+      callTool.mockRejectedValue(new Error("socket hang up"));
+      await queued.feedback({ "i-1": "accepted" }, { queryId: "q-gone" });
+
+      callTool.mockReset();
+      callTool.mockResolvedValue(mockResponse({ error: "Unknown query_id: q-gone" }));
+
+      expect(await queued.flushFeedback()).toEqual({ sent: 0, dropped: 1, pending: 0 });
+    });
+
+    it("still throws server errors from feedback()", async () => {
+      const queued = queuedStore(true);
+      callTool.mockResolvedValue(mockResponse({ error: "Unknown query_id: q-1" }));
+
+      await expect(
+        queued.feedback({ "i-1": "accepted" }, { queryId: "q-1" }),
+      ).rejects.toThrow(QortexServerError);
+      expect(queued.pendingFeedback).toBe(0);
+    });
+
+    it("throws connection errors when no queue is configured", async () => {
+      callTool.mockRejectedValue(new Error("socket hang up"));
+
+      await expect(
+        store.feedback({ "i-1": "accepted" }, { queryId: "q-1" }),
+      ).rejects.toThrow(QortexConnectionError);
+    });
+
+    it("persists the queue across restarts", async () => {
+      const path = join(mkdtempSync(join(tmpdir(), "qortex-feedback-")), "feedback.jsonl");
+      callTool.mockRejectedValue(new Error("socket hang up"));
+      await queuedStore({ path }).feedback({ "i-1": "accepted" }, { queryId: "q-1" });
+
+      expect(readFileSync(path, "utf8").trim()).toBe(
+        JSON.stringify({ query_id: "q-1", id: "i-1", outcome: "accepted" }),
+      );
+
+      const restarted = queuedStore({ path });
+      expect(restarted.pendingFeedback).toBe(1);
+
+      callTool.mockReset();
+      callTool.mockImplementation(async ({ arguments: args }) => recorded(args));
+      await restarted.flushFeedback();
+
+      expect(restarted.pendingFeedback).toBe(0);
+      expect(existsSync(path)).toBe(false);
+    });
+  });
+
+  describe("maxMarginalRelevanceSearch", () => {
+    // Query is [1, 0, 0, 0]; b is a near-duplicate of a, c is less relevant but different.
+    const candidates = {
+      results: [
+        { id: "a", score: 0.95, metadata: { text: "OAuth2 flows", node_id: "sec:oauth" }, vector: [0.95, 0.31, 0, 0] },
+        { id: "b", score: 0.94, metadata: { text: "OAuth2 grants", node_id: "sec:oauth" }, vector: [0.94, 0.34, 0, 0] },
+        { id: "c", score: 0.8, metadata: { text: "JWT claims", node_id: "sec:jwt" }, vector: [0.8, -0.6, 0, 0] },
+      ],
+    };
+
+    beforeEach(() => {
+      (embeddings.embedQuery as ReturnType<typeof vi.fn>).mockResolvedValue([1, 0, 0, 0]);
+      callTool.mockResolvedValue(mockResponse(candidates));
+    });
+
+    it("fetches fetchK candidates with vectors", async () => {
+      await store.maxMarginalRelevanceSearch("auth", { k: 2, fetchK: 10 });
+
+      expect(callTool).toHaveBeenCalledWith({
+        name: "qortex_vector_query",
+        arguments: {
+          index_name: "test-index",
+          query_vector: [1, 0, 0, 0],
+          top_k: 10,
+          filter: undefined,
+          include_vector: true,
+        },
+      });
+    });
+
+    it("trades relevance for diversity with lambda", async () => {
+      const diverse = await store.maxMarginalRelevanceSearch("auth", { k: 2, lambda: 0.5 });
+      expect(diverse.map((d) => d.id)).toEqual(["a", "c"]);
+      expect(diverse[0].pageContent).toBe("OAuth2 flows");
+
+      const relevant = await store.maxMarginalRelevanceSearch("auth", { k: 2, lambda: 1 });
+      expect(relevant.map((d) => d.id)).toEqual(["a", "b"]);
+    });
+
+    it("penalizes results sharing a graph node", async () => {
+      const plain = await store.maxMarginalRelevanceSearch("auth", { k: 2, lambda: 0.9 });
+      expect(plain.map((d) => d.id)).toEqual(["a", "b"]);
+
+      const graphAware = await store.maxMarginalRelevanceSearch("auth", {
+        k: 2,
+        lambda: 0.9,
+        graphDiversity: 0.5,
+      });
+      expect(graphAware.map((d) => d.id)).toEqual(["a", "c"]);
+    });
+
+    it("powers asRetriever with searchType mmr", async () => {
+      const diverse = new QortexVectorStore(embeddings, {
+        mcpClient: { callTool } as unknown as Client,
+        graphDiversity: 0.5,
+      });
+      const retriever = diverse.asRetriever({
+        k: 2,
+        searchType: "mmr",
+        searchKwargs: { fetchK: 3, lambda: 0.9 },
+      });
+
+      const docs = await retriever.invoke("auth");
+      expect(docs.map((d) => d.id)).toEqual(["a", "c"]);
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Errors
+  // -----------------------------------------------------------------------
+
+  describe("errors", () => {
+    it("keeps tool name, arguments and payload", async () => {
+      callTool.mockResolvedValue(
+        mockResponse({ error: "Index 'test-index' not found" }),
+      );
+
+      const err = await store
+        .similaritySearchVectorWithScore([1, 0, 0, 0], 5)
+        .catch((e) => e);
+
+      expect(err).toBeInstanceOf(QortexIndexNotFoundError);
+      expect(err).toBeInstanceOf(QortexError);
+      expect(err.message).toBe("Index 'test-index' not found");
+      expect(err.toolName).toBe("qortex_vector_query");
+      expect(err.indexName).toBe("test-index");
+      expect(err.args).toMatchObject({ index_name: "test-index", top_k: 5 });
+      expect(err.payload).toEqual({ error: "Index 'test-index' not found" });
+    });
+
+    it("maps isError text responses to typed errors", async () => {
+      callTool.mockResolvedValue({
+        content: [{ type: "text", text: "Traceback: boom" }],
+        isError: true,
+      });
+
+      const err = await store.getRules().catch((e) => e);
+      expect(err).toBeInstanceOf(QortexServerError);
+      expect(err.payload).toBe("Traceback: boom");
+    });
+
+    it("treats isError JSON responses as errors", async () => {
+      callTool.mockResolvedValue({
+        ...mockResponse({ detail: "invalid depth" }),
+        isError: true,
+      });
+
+      await expect(store.explore("sec:oauth", -1)).rejects.toThrow(
+        QortexValidationError,
+      );
+    });
+
+    it("maps unknown tools to QortexToolNotFoundError", async () => {
+      callTool.mockRejectedValue(
+        new McpError(ErrorCode.InvalidParams, "Tool qortex_rules not found"),
+      );
+
+      await expect(store.getRules()).rejects.toThrow(QortexToolNotFoundError);
+    });
+
+    it("surfaces errors from feedback", async () => {
+      callTool.mockResolvedValueOnce(
+        mockResponse({ items: [], query_id: "q-1", rules: [] }),
+      );
+      await store.similaritySearch("auth");
+
+      callTool.mockResolvedValueOnce(
+        mockResponse({ error: "Unknown query_id: q-1" }),
+      );
+      await expect(store.feedback({ "i-1": "accepted" })).rejects.toThrow(
+        QortexServerError,
+      );
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Capabilities
+  // -----------------------------------------------------------------------
+
+  describe("capabilities", () => {
+    function storeWithTools(tools: string[]) {
+      const client = {
+        callTool,
+        listTools: vi.fn(async () => ({ tools: tools.map((name) => ({ name })) })),
+        getServerVersion: () => ({ name: "qortex", version: "0.2.1" }),
+      } as unknown as Client;
+      return new QortexVectorStore(embeddings, { mcpClient: client });
+    }
+
+    it("is null until connected", () => {
+      expect(storeWithTools([]).capabilities).toBeNull();
+    });
+
+    it("exposes discovered tools and version after connect", async () => {
+      const discovering = storeWithTools(["qortex_query", "qortex_feedback"]);
+      await discovering.connect();
+
+      expect(discovering.capabilities).toEqual({
+        serverName: "qortex",
+        serverVersion: "0.2.1",
+        tools: ["qortex_query", "qortex_feedback"],
+      });
+    });
+
+    it("fails fast for methods the server does not support", async () => {
+      const limited = storeWithTools(["qortex_query"]);
+
+      await expect(limited.explore("sec:oauth")).rejects.toThrow(
+        "qortex_explore is unsupported by qortex server v0.2.1",
+      );
+      await expect(limited.explore("sec:oauth")).rejects.toThrow(
+        QortexToolNotFoundError,
+      );
+      expect(callTool).not.toHaveBeenCalled();
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Response validation
+  // -----------------------------------------------------------------------
+
+  describe("response validation", () => {
+    function storeWith(validation: "strict" | "lenient" | "off") {
+      const logger = { warn: vi.fn() };
+      const validating = new QortexVectorStore(embeddings, {
+        mcpClient: { callTool } as unknown as Client,
+        indexName: "test-index",
+        validation,
+        logger,
+      });
+      return { store: validating, logger };
+    }
+
+    const driftedQuery = {
+      items: [{ id: "i-1", content: "OAuth2", score: "high" }],
+      query_id: "q-1",
+    };
+
+    it("strict mode throws a detailed validation error", async () => {
+      callTool.mockResolvedValue(mockResponse(driftedQuery));
+      const { store: strict } = storeWith("strict");
+
+      const err = await strict.similaritySearch("auth").catch((e) => e);
+
+      expect(err).toBeInstanceOf(QortexValidationError);
+      expect(err.toolName).toBe("qortex_query");
+      expect(err.payload).toEqual(driftedQuery);
+      expect(err.issues).toEqual(
+        expect.arrayContaining([
+          expect.stringMatching(/^items\.0\.score: /),
+          expect.stringMatching(/^items\.0\.node_id: /),
+          expect.stringMatching(/^rules: /),
+        ]),
+      );
+    });
+
+    it("lenient mode logs and fills in defaults", async () => {
+      callTool.mockResolvedValue(mockResponse(driftedQuery));
+      const { store: lenient, logger } = storeWith("lenient");
+
+      const results = await lenient.similaritySearchWithScore("auth");
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining("Invalid qortex_query response"),
+      );
+      expect(results).toHaveLength(1);
+      const [doc, score] = results[0];
+      expect(score).toBe(0);
+      expect(doc.metadata).toMatchObject({ node_id: "", domain: "" });
+    });
+
+    it("lenient mode drops matches without an id", async () => {
+      callTool.mockResolvedValue(
+        mockResponse({ results: [{ score: 0.9, metadata: {} }] }),
+      );
+      const { store: lenient, logger } = storeWith("lenient");
+
+      const results = await lenient.similaritySearchVectorWithScore([1, 0, 0, 0], 1);
+
+      expect(results).toEqual([]);
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining("results.0.id"),
+      );
+    });
+
+    it("lenient mode keeps the valid matches next to a malformed one", async () => {
+      callTool.mockResolvedValue(
+        mockResponse({
+          results: [
+            { id: "a", score: 0.9, metadata: { text: "kept" } },
+            { score: 0.5, metadata: {} },
+          ],
+        }),
+      );
+      const { store: lenient, logger } = storeWith("lenient");
+
+      const results = await lenient.similaritySearchVectorWithScore([1, 0, 0, 0], 2);
+
+      expect(results.map(([doc, score]) => [doc.id, doc.pageContent, score])).toEqual([
+        ["a", "kept", 0.9],
+      ]);
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining("results.1.id"),
+      );
+    });
+
+    it("lenient mode keeps the valid items of a text-level search", async () => {
+      callTool.mockResolvedValue(
+        mockResponse({
+          items: [
+            { id: "i-1", content: "OAuth2", score: 0.9, domain: "security", node_id: "sec:oauth", metadata: {} },
+            { content: "no id", score: 0.5 },
+          ],
+          query_id: "q-1",
+          rules: [],
+        }),
+      );
+      const { store: lenient } = storeWith("lenient");
+
+      const results = await lenient.similaritySearch("auth", 2);
+
+      expect(results.map((doc) => doc.pageContent)).toEqual(["OAuth2"]);
+    });
+
+    it("lenient mode still rejects non-object payloads", async () => {
+      callTool.mockResolvedValue(mockResponse(["docs"]));
+      const { store: lenient } = storeWith("lenient");
+
+      await expect(lenient.listIndexes()).rejects.toThrow(QortexValidationError);
+    });
+
+    it("accepts a missing explore node", async () => {
+      callTool.mockResolvedValue(mockResponse({ node: null }));
+      const { store: strict } = storeWith("strict");
+
+      expect(await strict.explore("nope")).toBeNull();
+    });
+
+    it("off mode passes responses through unchanged", async () => {
+      callTool.mockResolvedValue(mockResponse({ indexes: "docs" }));
+      const { store: unchecked, logger } = storeWith("off");
+
+      expect(await unchecked.listIndexes()).toBe("docs");
+      expect(logger.warn).not.toHaveBeenCalled();
+    });
   });
 
   // -----------------------------------------------------------------------
   // asRetriever (inherited from VectorStore)
   // -----------------------------------------------------------------------
 
+  describe("serialization", () => {
+    const config = {
+      indexName: "docs",
+      domain: "security",
+      serverCommand: "qortex",
+      serverArgs: ["mcp-serve"],
+      serverEnv: { QORTEX_API_KEY: "sk-secret" },
+      authToken: "tok-secret",
+      headers: { "X-Api-Key": "hdr-secret" },
+      reconnect: { maxRetries: 2 },
+      logger: { warn: () => {} },
+    };
+
+    it("saves the non-secret config and marks secrets", () => {
+      const saved = new QortexVectorStore(embeddings, { ...config, mcpClient: {} as Client });
+      const json = JSON.parse(JSON.stringify(saved));
+
+      expect(json.id).toEqual(["langchain", "vectorstores", "qortex", "QortexVectorStore"]);
+      expect(json.kwargs).toEqual({
+        index_name: "docs",
+        domain: "security",
+        server_command: "qortex",
+        server_args: ["mcp-serve"],
+        server_env: { QORTEX_API_KEY: { lc: 1, type: "secret", id: ["QORTEX_API_KEY"] } },
+        auth_token: { lc: 1, type: "secret", id: ["QORTEX_AUTH_TOKEN"] },
+        headers: { "X-Api-Key": { lc: 1, type: "secret", id: ["QORTEX_HEADER_X_API_KEY"] } },
+        reconnect: { maxRetries: 2 },
+      });
+    });
+
+    it("rebuilds the store with load()", async () => {
+      const saved = JSON.stringify(new QortexVectorStore(embeddings, config));
+
+      const loaded = await load<QortexVectorStore>(saved, {
+        importMap: qortexImportMap({ embeddings }),
+        secretsMap: {
+          QORTEX_API_KEY: "sk-secret",
+          QORTEX_AUTH_TOKEN: "tok-secret",
+          QORTEX_HEADER_X_API_KEY: "hdr-secret",
+        },
+      });
+
+      expect(loaded).toBeInstanceOf(QortexVectorStore);
+      expect(loaded.embeddings).toBe(embeddings);
+      expect(loaded.lc_kwargs).toMatchObject({
+        indexName: "docs",
+        serverEnv: { QORTEX_API_KEY: "sk-secret" },
+        authToken: "tok-secret",
+        reconnect: { maxRetries: 2 },
+      });
+      expect(JSON.stringify(loaded)).toBe(saved);
+    });
+
+    it("saves the plain options of both caches, without adapter or store instances", async () => {
+      const saved = JSON.stringify(
+        new QortexVectorStore(embeddings, {
+          indexName: "docs",
+          cache: { adapter: new QortexLruCache(), ttlMs: 5_000, textQueries: true },
+          embeddingCache: { store: new QortexMemoryEmbeddingStore(), modelId: "fake" },
+        }),
+      );
+      expect(JSON.parse(saved).kwargs).toEqual({
+        index_name: "docs",
+        cache: { ttlMs: 5_000, textQueries: true },
+        embedding_cache: { modelId: "fake" },
+      });
+
+      const loaded = await load<QortexVectorStore>(saved, {
+        importMap: qortexImportMap({ embeddings }),
+      });
+      expect(loaded.lc_kwargs).toMatchObject({
+        cache: { ttlMs: 5_000, textQueries: true },
+        embeddingCache: { modelId: "fake" },
+      });
+      expect(loaded.embeddingCacheStats).toEqual({ hits: 0, misses: 0 });
+    });
+
+    it("requires secrets when loading", async () => {
+      const saved = JSON.stringify(new QortexVectorStore(embeddings, config));
+
+      await expect(
+        load(saved, { importMap: qortexImportMap({ embeddings }) }),
+      ).rejects.toThrow(/Missing secret "QORTEX_API_KEY"/);
+    });
+
+    it("requires embeddings when they were not saved", async () => {
+      const saved = JSON.stringify(new QortexVectorStore(embeddings, { indexName: "docs" }));
+
+      await expect(load(saved, { importMap: qortexImportMap() })).rejects.toThrow(
+        QortexValidationError,
+      );
+    });
+  });
+
   describe("asRetriever", () => {
     it("creates a retriever with default k", () => {
       const retriever = store.asRetriever();
@@ -548,6 +1979,92 @@ describe("QortexVectorStore", () => {
       const retriever = store.asRetriever(10);
       expect(retriever.k).toBe(10);
     });
+
+    it("keeps the fields form and the qortex tag", () => {
+      const retriever = store.asRetriever({ k: 2, searchType: "mmr", tags: ["docs"] });
+      expect(retriever.k).toBe(2);
+      expect(retriever.searchType).toBe("mmr");
+      expect(retriever.tags).toEqual(["docs", "qortex"]);
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Timeouts and cancellation
+  // -----------------------------------------------------------------------
+
+  describe("timeouts and cancellation", () => {
+    const queryResponse = mockResponse({ items: [], query_id: "q-1", rules: [] });
+
+    function requestOptions(call = 0) {
+      return callTool.mock.calls[call][2] as { timeout?: number; signal?: AbortSignal };
+    }
+
+    it("applies the store's timeoutMs to every call", async () => {
+      const mock = createMockClient();
+      const timed = new QortexVectorStore(embeddings, {
+        mcpClient: mock.client,
+        timeoutMs: 500,
+      });
+      mock.callTool.mockResolvedValueOnce(mockResponse({ indexes: [] }));
+
+      await timed.listIndexes();
+      expect(mock.callTool).toHaveBeenCalledWith(
+        { name: "qortex_vector_list_indexes", arguments: {} },
+        undefined,
+        { timeout: 500, signal: undefined },
+      );
+    });
+
+    it("lets per-call options override the default", async () => {
+      const controller = new AbortController();
+      callTool.mockResolvedValueOnce(
+        mockResponse({ node: null, edges: [], rules: [], neighbors: [] }),
+      );
+
+      await store.explore("sec:oauth", 1, { timeoutMs: 50, signal: controller.signal });
+      expect(requestOptions()).toEqual({ timeout: 50, signal: controller.signal });
+    });
+
+    it("passes options from withRequestOptions to LangChain methods", async () => {
+      const controller = new AbortController();
+      callTool.mockResolvedValueOnce(queryResponse);
+
+      await withRequestOptions({ signal: controller.signal, timeoutMs: 75 }, () =>
+        store.similaritySearch("auth"),
+      );
+      expect(requestOptions()).toEqual({ timeout: 75, signal: controller.signal });
+    });
+
+    it("passes RunnableConfig.signal through asRetriever", async () => {
+      const controller = new AbortController();
+      callTool.mockResolvedValueOnce(queryResponse);
+
+      await store.asRetriever(2).invoke("auth", { signal: controller.signal });
+      expect(requestOptions().signal).toBe(controller.signal);
+    });
+
+    it("fails with QortexAbortError without calling an aborted request", async () => {
+      const err = await store
+        .feedback({ "d-1": "accepted" }, { queryId: "q-1", signal: AbortSignal.abort() })
+        .catch((e: unknown) => e);
+
+      expect(err).toBeInstanceOf(QortexAbortError);
+      expect(callTool).not.toHaveBeenCalled();
+    });
+
+    it("stops ingestion when the signal is aborted", async () => {
+      const controller = new AbortController();
+      callTool.mockImplementation(async () => {
+        controller.abort();
+        return mockResponse({ ids: ["a"], count: 1 });
+      });
+
+      const docs = ["a", "b", "c"].map((id) => new Document({ id, pageContent: id }));
+      await expect(
+        store.addDocuments(docs, { batchSize: 1, signal: controller.signal }),
+      ).rejects.toBeInstanceOf(QortexAbortError);
+      expect(callTool).toHaveBeenCalledTimes(1);
+    });
   });
 
   // -----------------------------------------------------------------------